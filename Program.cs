@@ -6,12 +6,19 @@ namespace MigoyugoGame
 {
     class Program
     {
-        static MigoyugoAI ai = new MigoyugoAI();
+        static MigoyugoAI.MigoyugoAI ai = new MigoyugoAI.MigoyugoAI();
         static bool gameRunning = true;
         static bool isWhiteTurn = true; // White always goes first
         
         static async Task Main(string[] args)
         {
+            // Engine protocol mode for the Node tools and server (client/src/engine/engineProtocol.ts)
+            if (Array.IndexOf(args, "--mei") >= 0)
+            {
+                RunProtocol();
+                return;
+            }
+            
             Console.WriteLine("=== Migoyugo AI ===");
             Console.WriteLine("White always moves first. Enter moves as 'A1', 'B3', etc.");
             Console.WriteLine("Type 'quit' to exit, 'reset' to start new game.");
@@ -154,6 +161,92 @@ namespace MigoyugoGame
             Console.WriteLine($"AI plays {colChar}{move.row + 1} (took {stopwatch.ElapsedMilliseconds}ms)");
         }
         
+        static void RunProtocol()
+        {
+            string line;
+            while ((line = Console.ReadLine()) != null)
+            {
+                string[] words = line.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+                if (words.Length == 0)
+                    continue;
+                    
+                switch (words[0])
+                {
+                    case "mei":
+                        Console.WriteLine("id name MigoyugoAI C#");
+                        Console.WriteLine("option name Depth type spin default 4 min 1 max 6");
+                        Console.WriteLine("meiok");
+                        break;
+                    case "isready":
+                        Console.WriteLine("readyok");
+                        break;
+                    case "setoption":
+                        // setoption name Depth value <n>
+                        if (words.Length == 5 && words[2] == "Depth" && int.TryParse(words[4], out int depth) && depth >= 1 && depth <= 6)
+                            ai.SetSearchDepth(depth);
+                        else
+                            Console.WriteLine($"info string Bad option: {line}");
+                        break;
+                    case "newgame":
+                        ai.ResetBoard();
+                        isWhiteTurn = true;
+                        break;
+                    case "position":
+                        // position startpos [moves <square> ...]
+                        ai.ResetBoard();
+                        isWhiteTurn = true;
+                        for (int i = 3; i < words.Length; i++)
+                        {
+                            if (!ParseSquareName(words[i], out int row, out int col))
+                            {
+                                Console.WriteLine($"info string Bad square '{words[i]}'");
+                                break;
+                            }
+                            try
+                            {
+                                ai.MakeMove(row, col, isWhiteTurn);
+                            }
+                            catch (ArgumentException ex)
+                            {
+                                Console.WriteLine($"info string Invalid move {words[i]}: {ex.Message}");
+                                break;
+                            }
+                            isWhiteTurn = !isWhiteTurn;
+                        }
+                        break;
+                    case "go":
+                        // The search runs to its set depth; time limits are left to the controller
+                        var move = ai.GetBestMove(isWhiteTurn);
+                        if (move.row == -1 || move.col == -1)
+                            Console.WriteLine("bestmove none");
+                        else
+                            Console.WriteLine($"bestmove {(char)('a' + move.col)}{8 - move.row}");
+                        break;
+                    case "stop":
+                        break;
+                    case "quit":
+                        return;
+                    default:
+                        Console.WriteLine($"info string Unknown command '{line}'");
+                        break;
+                }
+            }
+        }
+        
+        // Protocol squares are named as on the web board: file a-h, rank 8 at row 0
+        static bool ParseSquareName(string name, out int row, out int col)
+        {
+            row = col = -1;
+            
+            if (name.Length != 2 || name[0] < 'a' || name[0] > 'h' || name[1] < '1' || name[1] > '8')
+                return false;
+                
+            col = name[0] - 'a';
+            row = '8' - name[1];
+            
+            return true;
+        }
+        
         static bool ParseMove(string input, out int row, out int col)
         {
             row = col = -1;
@@ -1,16 +1,36 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import io, { Socket } from 'socket.io-client';
 import './migoyugo-styles.css';
+import {
+  Cell,
+  Position,
+  applyMove,
+  checkForNexus,
+  cloneBoard,
+  countNodes,
+  createEmptyBoard,
+  createInitialPosition,
+  getScores,
+  isValidMove,
+  replayMoves,
+  YugoType,
+  wouldCreateLineTooLong
+} from './engine/rules';
+import { AIEngine, SearchProgress, evaluatePosition } from './engine/ai';
+import { IGO_SCORE, PositionAnalysis } from './engine/analysis';
+import { GameReport, MoveReview, ReportProgress, winChance } from './engine/gameReport';
+import { allocateThinkTime } from './engine/timeManagement';
+import { GameTermination, MOVE_ANNOTATIONS, MgnMove, MoveAnnotation, ParsedGame, mgnDate, parseMgn, writeMgn } from './engine/mgn';
+import { PositionSetup, decodePosition, encodePosition, moveNumberAfter } from './engine/positionNotation';
+import { SearchClient } from './engine/searchClient';
+import { findSetupProblems } from './engine/setup';
+import { HINT_REASONS, HintReason, explainMove } from './engine/hint';
+import { squareName } from './engine/notation';
+import { LineRef, addMove, deleteVariation, promoteVariation, resolveLine, sameLine, updateMove } from './engine/moveTree';
 
 // Types
-interface Cell {
-  color: 'white' | 'black' | null;
-  isNode: boolean;
-  nodeType?: 'standard' | 'double' | 'triple' | 'quadruple';
-}
-
 interface GameState {
   board: (Cell | null)[][];
   currentPlayer: 'white' | 'black';
@@ -27,8 +47,73 @@ interface MoveHistoryEntry {
   player: 'white' | 'black';
   vectors: number;
   moveNumber: number;
+  annotation?: MoveAnnotation;
+  comment?: string;
+  // Lines played instead of this move, added in review
+  variations?: MoveHistoryEntry[][];
 }
 
+// Delay between moves in AI vs AI self-play
+const SELF_PLAY_SPEEDS = {
+  slow: 2500,
+  normal: 1000,
+  fast: 250
+};
+
+// Review analysis search limits (AI-4)
+const ANALYSIS_TIME_MS = 10000;
+const ANALYSIS_MAX_DEPTH = 6;
+const ANALYSIS_LINES = 3;
+
+// Hint search limits (AI-4)
+const HINT_TIME_MS = 2000;
+const HINT_MAX_DEPTH = 6;
+
+// Post-game report search limits per position (AI-4)
+const REPORT_TIME_MS = 1000;
+const REPORT_MAX_DEPTH = 4;
+
+const CLASSIFICATION_LABELS: Record<MoveReview['classification'], string> = {
+  good: 'Good',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder'
+};
+
+// Move list with its variations, in MGN form
+const toMgnMoves = (moves: MoveHistoryEntry[]): MgnMove[] =>
+  moves.map(({ row, col, annotation, comment, variations }) => ({
+    row,
+    col,
+    annotation,
+    comment,
+    variations: variations && variations.map(toMgnMoves)
+  }));
+
+// Move list entries for MGN moves played from `position`, variations included
+const historyFromMgn = (moves: MgnMove[], position: Position, firstPly: number): MoveHistoryEntry[] =>
+  moves.map((move, index) => {
+    const result = applyMove(position, move.row, move.col);
+    const entry: MoveHistoryEntry = {
+      row: move.row,
+      col: move.col,
+      player: result.move.player,
+      vectors: result.vectors,
+      moveNumber: firstPly + index + 1,
+      annotation: move.annotation,
+      comment: move.comment,
+      variations: move.variations && move.variations.map(variation => historyFromMgn(variation, position, firstPly + index))
+    };
+    position = result.position;
+    return entry;
+  });
+
+// Engine score as shown in the analysis panel, White's point of view in Yugos
+const formatEvaluation = (score: number): string => {
+  if (Math.abs(score) >= IGO_SCORE) return score > 0 ? 'White Igo' : 'Black Igo';
+  return `${score > 0 ? '+' : ''}${(score / 100).toFixed(2)}`;
+};
+
 // Authentication types
 interface User {
   id: string;
@@ -45,1513 +130,69 @@ interface AuthState {
   isAuthenticated: boolean;
   user: User | null;
   isGuest: boolean;
-}
-
-const INITIAL_BOARD: (Cell | null)[][] = Array(8).fill(null).map(() => Array(8).fill(null));
-
-// Local game logic functions
-const isValidMove = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-  if (row < 0 || row >= 8 || col < 0 || col >= 8) return false;
-  if (board[row][col] !== null) return false;
-  return !wouldCreateLineTooLong(board, row, col, playerColor);
-};
-
-const wouldCreateLineTooLong = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-
-  for (const [dr, dc] of directions) {
-    let count = 1;
-    
-    // Count in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.color === playerColor) {
-      count++;
-      r += dr;
-      c += dc;
-    }
-    
-    // Count in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.color === playerColor) {
-      count++;
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (count > 4) return true;
-  }
-  
-  return false;
-};
-
-const checkForVectors = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black') => {
-  const directions = [
-    [-1, 0],  // up
-    [-1, 1],  // up-right diagonal  
-    [0, 1],   // right
-    [1, 1]    // down-right diagonal
-  ];
-  
-  const vectors = [];
-  
-  for (const [dr, dc] of directions) {
-    const line = [{row, col}];
-    
-    // Collect in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.color === playerColor) {
-      line.push({row: r, col: c});
-      r += dr;
-      c += dc;
-    }
-    
-    // Collect in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.color === playerColor) {
-      line.unshift({row: r, col: c});
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (line.length === 4) {
-      vectors.push(line);
-    }
-  }
-  
-  return vectors;
-};
-
-const processVectors = (board: (Cell | null)[][], vectors: any[], row: number, col: number) => {
-  if (vectors.length === 0) return { nodeType: null, removedCells: [] };
-  
-  const removedCells: {row: number, col: number}[] = [];
-  
-        // Remove dots from vectors (except nodes and the new placement)
-  vectors.forEach(vector => {
-    vector.forEach((cell: {row: number, col: number}) => {
-      if (!(cell.row === row && cell.col === col) && 
-          board[cell.row][cell.col] && 
-          !board[cell.row][cell.col]!.isNode) {
-        removedCells.push({row: cell.row, col: cell.col});
-        board[cell.row][cell.col] = null;
-      }
-    });
-  });
-  
-  // Determine node type based on number of vectors
-  let nodeType: 'standard' | 'double' | 'triple' | 'quadruple' = 'standard';
-  if (vectors.length === 2) nodeType = 'double';
-  else if (vectors.length === 3) nodeType = 'triple';
-  else if (vectors.length === 4) nodeType = 'quadruple';
-  
-  return { nodeType, removedCells };
-};
-
-const checkForNexus = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black') => {
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-  
-  for (const [dr, dc] of directions) {
-    const line = [{row, col}];
-    
-    // Collect in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.isNode && board[r][c]!.color === playerColor) {
-      line.push({row: r, col: c});
-      r += dr;
-      c += dc;
-    }
-    
-    // Collect in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c]!.isNode && board[r][c]!.color === playerColor) {
-      line.unshift({row: r, col: c});
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (line.length === 4) {
-      return line;
-    }
-  }
-  
-  return null;
-};
-
-const hasLegalMoves = (board: (Cell | null)[][], playerColor: 'white' | 'black'): boolean => {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (isValidMove(board, row, col, playerColor)) {
-        return true;
-      }
-    }
-  }
-  return false;
-};
-
-const countNodes = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let count = 0;
-  console.log(`DEBUG: Counting nodes for ${playerColor}`);
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const cell = board[row][col];
-      if (cell && cell.isNode && cell.color === playerColor) {
-        // Count node value based on its type
-        let nodeValue = 1; // default
-        switch (cell.nodeType) {
-          case 'standard':
-            nodeValue = 1;
-            break;
-          case 'double':
-            nodeValue = 2;
-            break;
-          case 'triple':
-            nodeValue = 3;
-            break;
-          case 'quadruple':
-            nodeValue = 4;
-            break;
-          default:
-            nodeValue = 1; // fallback for nodes without nodeType
-        }
-        console.log(`DEBUG: Node at ${row},${col} type=${cell.nodeType} value=${nodeValue}`);
-        count += nodeValue;
-      }
-    }
-  }
-  console.log(`DEBUG: Total count for ${playerColor}: ${count}`);
-  return count;
-};
-
-// Authentication validation functions
-const validateEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-};
-
-const validateUsername = (username: string): boolean => {
-  const usernameRegex = /^[a-zA-Z][a-zA-Z0-9]{5,19}$/;
-  return usernameRegex.test(username);
-};
-
-const validatePassword = (password: string): boolean => {
-  const hasUppercase = /[A-Z]/.test(password);
-  const hasLowercase = /[a-z]/.test(password);
-  const hasNumber = /\d/.test(password);
-  const hasSpecialChar = /[!@#$%^&*]/.test(password);
-  const hasMinLength = password.length >= 8;
-  
-  return hasUppercase && hasLowercase && hasNumber && hasSpecialChar && hasMinLength;
-};
-
-const getPasswordStrengthMessage = (password: string): string => {
-  const issues = [];
-  if (password.length < 8) issues.push('at least 8 characters');
-  if (!/[A-Z]/.test(password)) issues.push('one uppercase letter');
-  if (!/[a-z]/.test(password)) issues.push('one lowercase letter');
-  if (!/\d/.test(password)) issues.push('one number');
-  if (!/[!@#$%^&*]/.test(password)) issues.push('one special character (!@#$%^&*)');
-  
-  return issues.length > 0 ? `Password must contain: ${issues.join(', ')}` : '';
-};
-
-// Advanced AI System for Level 4 (2200-2400 Elo equivalent)
-
-// Transposition Table for position caching
-interface TranspositionEntry {
-  hash: string;
-  depth: number;
-  score: number;
-  flag: 'exact' | 'lowerbound' | 'upperbound';
-  bestMove: {row: number, col: number} | null;
-  age: number;
-}
-
-class TranspositionTable {
-  private table = new Map<string, TranspositionEntry>();
-  private maxSize = 100000; // Limit memory usage
-  private currentAge = 0;
-
-  get(hash: string): TranspositionEntry | null {
-    return this.table.get(hash) || null;
-  }
-
-  set(hash: string, entry: TranspositionEntry): void {
-    entry.age = this.currentAge;
-    
-    if (this.table.size >= this.maxSize) {
-      // Remove oldest entries
-      const entries = Array.from(this.table.entries());
-      entries.sort((a, b) => a[1].age - b[1].age);
-      const toRemove = entries.slice(0, Math.floor(this.maxSize * 0.1));
-      toRemove.forEach(([key]) => this.table.delete(key));
-    }
-    
-    this.table.set(hash, entry);
-  }
-
-  clear(): void {
-    this.table.clear();
-    this.currentAge++;
-  }
-}
-
-// Opening Book - Strong opening principles for migoyugo
-const openingBook: { [key: string]: string[] } = {
-  // Empty board - control center
-  '': [
-    '3,3', '4,4', '3,4', '4,3', '2,3', '3,2', '5,4', '4,5'
-  ],
-  
-  // After white plays center - respond with center control
-  'wI3,3': [
-    '4,4', '3,4', '4,3', '2,2', '5,5'
-  ],
-  
-  'wI4,4': [
-    '3,3', '3,4', '4,3', '2,2', '5,5'
-  ],
-  
-  // Diagonal responses
-  'wI3,4': [
-    '4,3', '3,3', '4,4', '2,5', '5,2'
-  ],
-  
-  'wI4,3': [
-    '3,4', '3,3', '4,4', '2,5', '5,2'
-  ],
-  
-  // Second move responses (after AI plays center)
-  'wI3,3,bI4,4': [
-    '2,2', '5,5', '3,4', '4,3'
-  ],
-  
-  'wI4,4,bI3,3': [
-    '2,2', '5,5', '3,4', '4,3'
-  ],
-  
-  // Edge opening responses
-  'wI2,2': [
-    '3,3', '4,4', '5,5'
-  ],
-  
-  'wI5,5': [
-    '4,4', '3,3', '2,2'
-  ]
-};
-
-// Helper functions
-const getAllValidMoves = (board: (Cell | null)[][], playerColor: 'white' | 'black'): {row: number, col: number}[] => {
-  const moves = [];
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (isValidMove(board, row, col, playerColor)) {
-        moves.push({row, col});
-      }
-    }
-  }
-  return moves;
-};
-
-const makeMove = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): (Cell | null)[][] => {
-  const newBoard = board.map(r => [...r]);
-  newBoard[row][col] = { color: playerColor, isNode: false };
-  
-  // Process vectors if any
-  const vectors = checkForVectors(newBoard, row, col, playerColor);
-  if (vectors.length > 0) {
-    const result = processVectors(newBoard, vectors, row, col);
-    if (result.nodeType) {
-      newBoard[row][col] = { color: playerColor, isNode: true, nodeType: result.nodeType };
-    }
-  }
-  
-  return newBoard;
-};
-
-  const getBoardString = (board: (Cell | null)[][]): string => {
-    return board.flat().map(cell => {
-      if (!cell) return '';
-      return `${cell.color![0]}${cell.isNode ? 'N' : 'I'}`;
-    }).join(',');
-  };
-
-// Advanced position evaluation
-const evaluatePosition = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  const opponentColor = playerColor === 'white' ? 'black' : 'white';
-  let score = 0;
-  
-  // 1. Material evaluation (nodes and their point values)
-  const playerNodes = countNodes(board, playerColor);
-  const opponentNodes = countNodes(board, opponentColor);
-  score += (playerNodes - opponentNodes) * 100;
-  
-  // 2. Immediate threats (nexus and vector formations)
-  score += evaluateThreats(board, playerColor);
-  
-  // 3. Positional factors
-  score += evaluatePositional(board, playerColor);
-  
-  // 4. Strategic factors
-  score += evaluateStrategic(board, playerColor);
-  
-  // 5. Tactical patterns
-  score += evaluateTactical(board, playerColor);
-  
-  // 6. Chain-building bias: reward longer chains of own color
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const cell = board[row][col];
-      if (cell && cell.color === playerColor) {
-        // Check in all 4 directions for chains
-        const directions = [[1,0],[0,1],[1,1],[1,-1]];
-        for (const [dr,dc] of directions) {
-          let length = 1;
-          let r = row + dr, c = col + dc;
-          while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor) {
-            length++;
-            r += dr; c += dc;
-          }
-          if (length >= 2) score += length * 12; // reward longer chains
-        }
-      }
-    }
-  }
-  
-  return score;
-};
-
-const evaluateThreats = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let score = 0;
-  const opponentColor = playerColor === 'white' ? 'black' : 'white';
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (!isValidMove(board, row, col, playerColor)) continue;
-      
-      // Test move for player
-      const testBoard = board.map(r => [...r]);
-      testBoard[row][col] = { color: playerColor, isNode: false };
-      
-      // Check for vectors
-      const vectors = checkForVectors(testBoard, row, col, playerColor);
-      if (vectors.length > 0) {
-        score += 1000 * vectors.length; // Vector formation bonus
-      }
-      
-      // Check for nexus (with node)
-      testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-      const nexus = checkForNexus(testBoard, row, col, playerColor);
-      if (nexus) {
-        score += 10000; // Instant win
-      }
-      
-      // Check blocking opponent threats
-      const opponentTestBoard = board.map(r => [...r]);
-      opponentTestBoard[row][col] = { color: opponentColor, isNode: false };
-      const opponentVectors = checkForVectors(opponentTestBoard, row, col, opponentColor);
-      if (opponentVectors.length > 0) {
-        score += 800 * opponentVectors.length; // Block opponent vectors
-      }
-      
-      opponentTestBoard[row][col] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-      const opponentNexus = checkForNexus(opponentTestBoard, row, col, opponentColor);
-      if (opponentNexus) {
-        score += 9000; // Block opponent nexus
-      }
-    }
-  }
-  
-  return score;
-};
-
-const evaluatePositional = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let score = 0;
-  const opponentColor = playerColor === 'white' ? 'black' : 'white';
-  
-  // Center control evaluation
-  const centerSquares = [[3,3], [3,4], [4,3], [4,4]];
-  for (const [row, col] of centerSquares) {
-    const cell = board[row][col];
-    if (cell?.color === playerColor) {
-      score += 50;
-    } else if (cell?.color === opponentColor) {
-      score -= 50;
-    }
-  }
-  
-  // Extended center control
-  const extendedCenter = [[2,2], [2,3], [2,4], [2,5], [3,2], [3,5], [4,2], [4,5], [5,2], [5,3], [5,4], [5,5]];
-  for (const [row, col] of extendedCenter) {
-    const cell = board[row][col];
-    if (cell?.color === playerColor) {
-      score += 20;
-    } else if (cell?.color === opponentColor) {
-      score -= 20;
-    }
-  }
-  
-  // Piece activity and mobility
-  score += evaluateMobility(board, playerColor) - evaluateMobility(board, opponentColor);
-  
-  return score;
-};
-
-const evaluateMobility = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let mobility = 0;
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (isValidMove(board, row, col, playerColor)) {
-        mobility++;
-      }
-    }
-  }
-  return mobility * 5; // Each possible move is worth 5 points
-};
-
-const evaluateStrategic = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let score = 0;
-  
-  // Connectivity bonus - pieces supporting each other
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const cell = board[row][col];
-      if (cell?.color === playerColor) {
-        let connections = 0;
-        const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
-        
-        for (const [dr, dc] of directions) {
-          const newRow = row + dr;
-          const newCol = col + dc;
-          if (newRow >= 0 && newRow < 8 && newCol >= 0 && newCol < 8) {
-            const adjCell = board[newRow][newCol];
-            if (adjCell?.color === playerColor) {
-              connections++;
-            }
-          }
-        }
-        
-        score += connections * 15; // Connectivity bonus
-        
-        // Node protection bonus
-        if (cell.isNode) {
-          score += connections * 25; // Extra bonus for protecting nodes
-        }
-      }
-    }
-  }
-  
-  return score;
-};
-
-const evaluateTactical = (board: (Cell | null)[][], playerColor: 'white' | 'black'): number => {
-  let score = 0;
-  
-  // Look for fork opportunities (moves that create multiple threats)
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (!isValidMove(board, row, col, playerColor)) continue;
-      
-      const testBoard = board.map(r => [...r]);
-      testBoard[row][col] = { color: playerColor, isNode: false };
-      
-      let threats = 0;
-      
-      // Count potential vectors from this position
-      const vectors = checkForVectors(testBoard, row, col, playerColor);
-      threats += vectors.length;
-      
-      // Check if this move creates multiple line possibilities
-      const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
-      for (const [dr, dc] of directions) {
-        let lineLength = 1;
-        
-        // Count in positive direction
-        let r = row + dr, c = col + dc;
-        while (r >= 0 && r < 8 && c >= 0 && c < 8 && testBoard[r][c]?.color === playerColor) {
-          lineLength++;
-          r += dr;
-          c += dc;
-        }
-        
-        // Count in negative direction
-        r = row - dr;
-        c = col - dc;
-        while (r >= 0 && r < 8 && c >= 0 && c < 8 && testBoard[r][c]?.color === playerColor) {
-          lineLength++;
-          r -= dr;
-          c -= dc;
-        }
-        
-        if (lineLength >= 3) {
-          threats++;
-        }
-      }
-      
-      if (threats >= 2) {
-        score += 200 * threats; // Fork bonus
-      }
-    }
-  }
-  
-  return score;
-};
-
-// Minimax with Alpha-Beta Pruning
-const minimax = (
-  board: (Cell | null)[][], 
-  depth: number, 
-  alpha: number, 
-  beta: number, 
-  isMaximizing: boolean, 
-  playerColor: 'white' | 'black',
-  transTable: TranspositionTable
-): {score: number, bestMove: {row: number, col: number} | null} => {
-  console.log('minimax: starting at depth', depth);
-  // Generate position hash for transposition table
-  const positionHash = JSON.stringify(board);
-  const ttEntry = transTable.get(positionHash);
-  
-  if (ttEntry && ttEntry.depth >= depth) {
-    if (ttEntry.flag === 'exact') {
-      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
-    } else if (ttEntry.flag === 'lowerbound' && ttEntry.score >= beta) {
-      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
-    } else if (ttEntry.flag === 'upperbound' && ttEntry.score <= alpha) {
-      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
-    }
-  }
-  
-  // Base case -> use quiescence search to resolve tactical volatility
-  if (depth === 0) {
-    const currentColorAtNode = isMaximizing ? playerColor : (playerColor === 'white' ? 'black' : 'white');
-    const q = quiescence(board, alpha, beta, currentColorAtNode, playerColor, isMaximizing, 0, 4);
-    return {score: q.score, bestMove: null};
-  }
-  
-  const currentColor = isMaximizing ? playerColor : (playerColor === 'white' ? 'black' : 'white');
-  const moves = getAllValidMoves(board, currentColor);
-  
-  if (moves.length === 0) {
-    const score = evaluatePosition(board, playerColor);
-    return {score, bestMove: null};
-  }
-  
-  // Move ordering - prioritize center moves and high-value squares
-  moves.sort((a, b) => {
-    const aScore = evaluateMove(board, a.row, a.col, currentColor, 'ai-4');
-    const bScore = evaluateMove(board, b.row, b.col, currentColor, 'ai-4');
-    return bScore - aScore;
-  });
-  
-  let bestMove: {row: number, col: number} | null = null;
-  let bestScore = isMaximizing ? -Infinity : Infinity;
-  
-  for (const move of moves) {
-    const newBoard = makeMove(board, move.row, move.col, currentColor);
-    const result = minimax(newBoard, depth - 1, alpha, beta, !isMaximizing, playerColor, transTable);
-    
-    if (isMaximizing) {
-      if (result.score > bestScore) {
-        bestScore = result.score;
-        bestMove = move;
-      }
-      alpha = Math.max(alpha, result.score);
-    } else {
-      if (result.score < bestScore) {
-        bestScore = result.score;
-        bestMove = move;
-      }
-      beta = Math.min(beta, result.score);
-    }
-    
-    if (beta <= alpha) {
-      break; // Alpha-beta pruning
-    }
-  }
-  
-  // Store in transposition table
-  const flag = bestScore <= alpha ? 'upperbound' : bestScore >= beta ? 'lowerbound' : 'exact';
-  transTable.set(positionHash, {
-    hash: positionHash,
-    depth,
-    score: bestScore,
-    flag,
-    bestMove,
-    age: 0
-  });
-  
-  return {score: bestScore, bestMove};
-};
-
-// Global transposition table instance
-const globalTransTable = new TranspositionTable();
-
-// --- Quiescence Search & Tactical Move Generation for AI-4 ---
-function quiescence(
-  board: (Cell | null)[][],
-  alpha: number,
-  beta: number,
-  currentTurnColor: 'white' | 'black',
-  evalColor: 'white' | 'black',
-  isMaximizing: boolean,
-  qDepth: number,
-  maxQDepth: number
-): { score: number } {
-  // Stand-pat evaluation
-  const standPat = evaluatePosition(board, evalColor);
-
-  if (isMaximizing) {
-    if (standPat >= beta) return { score: standPat };
-    if (standPat > alpha) alpha = standPat;
-  } else {
-    if (standPat <= alpha) return { score: standPat };
-    if (standPat < beta) beta = standPat;
-  }
-
-  if (qDepth >= maxQDepth) return { score: standPat };
-
-  const tacticalMoves = getTacticalMoves(board, currentTurnColor);
-  if (tacticalMoves.length === 0) return { score: standPat };
-
-  let best = standPat;
-  for (const move of tacticalMoves) {
-    const newBoard = makeMove(board, move.row, move.col, currentTurnColor);
-    const nextColor: 'white' | 'black' = currentTurnColor === 'white' ? 'black' : 'white';
-    const child = quiescence(newBoard, alpha, beta, nextColor, evalColor, !isMaximizing, qDepth + 1, maxQDepth);
-
-    if (isMaximizing) {
-      if (child.score > best) best = child.score;
-      if (best > alpha) alpha = best;
-    } else {
-      if (child.score < best) best = child.score;
-      if (best < beta) beta = best;
-    }
-    if (beta <= alpha) break;
-  }
-  return { score: best };
-}
-
-function getTacticalMoves(
-  board: (Cell | null)[][],
-  playerColor: 'white' | 'black'
-): { row: number; col: number }[] {
-  const opponentColor: 'white' | 'black' = playerColor === 'white' ? 'black' : 'white';
-  const all = getAllValidMoves(board, playerColor);
-  const result: { row: number; col: number }[] = [];
-
-  // Precompute opponent immediate Igo threats to allow blocking
-  const opponentThreatSquares = new Set<string>();
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      if (!isValidMove(board, r, c, opponentColor)) continue;
-      const oppBoard = board.map(row => [...row]);
-      oppBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-      if (checkForNexus(oppBoard, r, c, opponentColor)) {
-        opponentThreatSquares.add(`${r},${c}`);
-      }
-    }
-  }
-
-  for (const move of all) {
-    const testBoard = board.map(r => [...r]);
-    // 1) Creating unbroken line of 4 (vectors) is tactical
-    testBoard[move.row][move.col] = { color: playerColor, isNode: false };
-    const vecs = checkForVectors(testBoard, move.row, move.col, playerColor);
-    if (vecs.length > 0) {
-      result.push(move);
-      continue;
-    }
-
-    // 2) Immediate Igo (nexus) by making this cell a node
-    testBoard[move.row][move.col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-    if (checkForNexus(testBoard, move.row, move.col, playerColor)) {
-      result.push(move);
-      continue;
-    }
-
-    // 3) Blocks opponent immediate Igo (if opponent could win by playing here)
-    if (opponentThreatSquares.has(`${move.row},${move.col}`)) {
-      result.push(move);
-      continue;
-    }
-  }
-  return result;
-}
-  // Check for "adjacent nodes + dot sacrifice" threat pattern (the tactic user discovered)
-const checkAdjacentNodeThreat = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-      // This detects the pattern: Node-Node-Empty-Dot where Dot can sacrifice to create double threat
-  const directions = [
-    [-1, 0], [1, 0],   // vertical
-    [0, -1], [0, 1],   // horizontal  
-    [-1, -1], [1, 1],  // diagonal \
-    [-1, 1], [1, -1]   // diagonal /
-  ];
-  
-  for (const [dr, dc] of directions) {
-          // Check if placing dot here creates the dangerous pattern
-      // Pattern: [Node][Node][Empty][Dot-position][Empty] or [Empty][Dot-position][Empty][Node][Node]
-    
-    // Look in one direction for: Node-Node-Empty sequence
-    let r = row + dr;
-    let c = col + dc;
-    
-    // Check if next position is empty
-    if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) {
-      // Look further for two adjacent nodes
-      r += dr;
-      c += dc;
-      if (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-          board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-        
-        r += dr;
-        c += dc;
-        if (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-            board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-          
-          // Found pattern: [Dot][Empty][Node][Node] - this creates double threat
-          return true;
-        }
-      }
-    }
-    
-    // Check opposite direction for: Empty-Node-Node sequence  
-    r = row - dr;
-    c = col - dc;
-    
-    if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) {
-      r -= dr;
-      c -= dc;
-      if (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-          board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-        
-        r -= dr;
-        c -= dc;
-        if (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-            board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-          
-          // Found pattern: [Node][Node][Empty][Dot] - this creates double threat
-          return true;
-        }
-      }
-    }
-  }
-  
-  return false;
-};
-
-// Helper function: Detects if placing a piece at (row, col) for playerColor creates three connected nodes with open ends
-const createsDoubleEndedNodeThreat = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-  const directions = [
-    [0, 1], [1, 0], [1, 1], [1, -1]
-  ];
-  for (const [dr, dc] of directions) {
-    let count = 1;
-    let ends = [false, false];
-    // Forward direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-      count++;
-      r += dr;
-      c += dc;
-    }
-    if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) ends[0] = true;
-    // Backward direction
-    r = row - dr; c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-      count++;
-      r -= dr;
-      c -= dc;
-    }
-    if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) ends[1] = true;
-    if (count === 3 && ends[0] && ends[1]) {
-      return true;
-    }
-  }
-  return false;
-};
-
-// Enhanced AI-4 evaluation with 2-ply lookahead (uses extra thinking time)
-const evaluateAI4Move = (board: (Cell | null)[][], row: number, col: number): number => {
-  let score = 0;
-  const playerColor = 'black';
-  const opponentColor = 'white';
-  
-  // Create test board
-  const testBoard = board.map(r => [...r]);
-  testBoard[row][col] = { color: playerColor, isNode: false };
-  
-  // PRIORITY 1: Vector Formation (instant scoring)
-  const vectors = checkForVectors(testBoard, row, col, playerColor);
-  if (vectors.length > 0) {
-    score += 2000 * vectors.length; // Huge bonus for vectors
-  }
-  
-  // PRIORITY 2: Check for nexus (instant win)
-  if (vectors.length > 0) {
-    testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-    const nexus = checkForNexus(testBoard, row, col, playerColor);
-    if (nexus) {
-      score += 10000; // Instant win
-    }
-  }
-  
-  // PRIORITY 3: Block opponent threats (ENHANCED - nearly equal to vector formation)
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      if (isValidMove(board, r, c, opponentColor) && r === row && c === col) {
-        const opponentTestBoard = board.map(row => [...row]);
-        opponentTestBoard[r][c] = { color: opponentColor, isNode: false };
-        const opponentVectors = checkForVectors(opponentTestBoard, r, c, opponentColor);
-        
-        if (opponentVectors.length > 0) {
-          score += 1900 * opponentVectors.length; // INCREASED: Almost as important as making vectors
-          
-          // Check if opponent can win with nexus
-          opponentTestBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-          const opponentNexus = checkForNexus(opponentTestBoard, r, c, opponentColor);
-          if (opponentNexus) {
-            score += 9500; // INCREASED: Must block winning moves
-          }
-        }
-        
-        // NEW: Check for "adjacent nodes + dot sacrifice" threat pattern
-        const adjacentNodeThreat = checkAdjacentNodeThreat(board, r, c, opponentColor);
-        if (adjacentNodeThreat) {
-          score += 1800; // High priority - this creates double threats
-        }
-      }
-    }
-  }
-  
-  // PRIORITY 4: 2-PLY LOOKAHEAD (uses extra thinking time for deeper analysis)
-  // After making this move, what are opponent's best responses?
-  let bestOpponentResponse = -Infinity;
-  let opponentMoves = 0;
-  
-  for (let r = 0; r < 8 && opponentMoves < 8; r++) { // Limit to 8 moves for performance
-    for (let c = 0; c < 8 && opponentMoves < 8; c++) {
-      if (isValidMove(testBoard, r, c, opponentColor)) {
-        opponentMoves++;
-        const opponentBoard = testBoard.map(row => [...row]);
-        opponentBoard[r][c] = { color: opponentColor, isNode: false };
-        
-        let opponentScore = 0;
-        
-        // Check if opponent can form vectors
-        const opponentVectors = checkForVectors(opponentBoard, r, c, opponentColor);
-        if (opponentVectors.length > 0) {
-          opponentScore += 2000 * opponentVectors.length;
-          
-          // Check if opponent can win with nexus
-          opponentBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-          const opponentNexus = checkForNexus(opponentBoard, r, c, opponentColor);
-          if (opponentNexus) {
-            opponentScore += 10000; // Opponent wins
-          }
-        }
-        
-        // Add positional value for opponent
-        const oppCenterDist = Math.abs(r - 3.5) + Math.abs(c - 3.5);
-        opponentScore += (7 - oppCenterDist) * 10;
-        
-        bestOpponentResponse = Math.max(bestOpponentResponse, opponentScore);
-      }
-    }
-  }
-  
-  // Subtract opponent's best response potential (defensive thinking)
-  if (bestOpponentResponse > -Infinity) {
-    score -= bestOpponentResponse * 0.8; // 80% weight to opponent threats
-  }
-  
-  // PRIORITY 5: Positional factors
-  const centerDistance = Math.abs(row - 3.5) + Math.abs(col - 3.5);
-  score += (7 - centerDistance) * 15; // Center control
-  
-  // PRIORITY 6: Connectivity (piece support)
-  let connections = 0;
-  const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
-  for (const [dr, dc] of directions) {
-    const newRow = row + dr;
-    const newCol = col + dc;
-    if (newRow >= 0 && newRow < 8 && newCol >= 0 && newCol < 8) {
-      if (board[newRow][newCol]?.color === playerColor) {
-        connections++;
-      }
-    }
-  }
-  score += connections * 25;
-  
-  // PRIORITY 7: Line potential (setup for future vectors)
-  for (const [dr, dc] of directions) {
-    let lineLength = 1;
-    
-    // Count in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor) {
-      lineLength++;
-      r += dr;
-      c += dc;
-    }
-    
-    // Count in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor) {
-      lineLength++;
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (lineLength >= 3) {
-      score += 100 * lineLength; // Bonus for potential lines
-    }
-  }
-  
-  // PRIORITY 8: Fork opportunities (multiple threats)
-  let forkPotential = 0;
-  for (const [dr, dc] of directions) {
-    let potentialLines = 0;
-    const r1 = row + dr, c1 = col + dc;
-    const r2 = row - dr, c2 = col - dc;
-    
-    if (r1 >= 0 && r1 < 8 && c1 >= 0 && c1 < 8 && !board[r1][c1]) {
-      if (r1 + dr >= 0 && r1 + dr < 8 && c1 + dc >= 0 && c1 + dc < 8 && 
-          board[r1 + dr][c1 + dc]?.color === playerColor) {
-        potentialLines++;
-      }
-    }
-    
-    if (r2 >= 0 && r2 < 8 && c2 >= 0 && c2 < 8 && !board[r2][c2]) {
-      if (r2 - dr >= 0 && r2 - dr < 8 && c2 - dc >= 0 && c2 - dc < 8 && 
-          board[r2 - dr][c2 - dc]?.color === playerColor) {
-        potentialLines++;
-      }
-    }
-    
-    forkPotential += potentialLines;
-  }
-  
-  if (forkPotential >= 2) {
-    score += 300 * forkPotential; // Bonus for creating multiple threats
-  }
-  
-  return score;
-};
-
-// ===== TACTICAL PATTERN DETECTION FOR AI-3 =====
-
-// Helper function to check if a cell is "empty" (no node present, even if ion exists)
-const isEmptyCell = (board: (Cell | null)[][], row: number, col: number): boolean => {
-  return !board[row][col] || !board[row][col]?.isNode;
-};
-
-// Helper function to get connected pieces in a direction
-const getConnectedPieces = (board: (Cell | null)[][], startRow: number, startCol: number, 
-                           direction: [number, number], color: 'white' | 'black'): {row: number, col: number, isNode: boolean}[] => {
-  const [dr, dc] = direction;
-  const pieces: {row: number, col: number, isNode: boolean}[] = [];
-  let emptyGaps = 0;
-  
-  let r = startRow;
-  let c = startCol;
-  
-  while (r >= 0 && r < 8 && c >= 0 && c < 8) {
-    const cell = board[r][c];
-    
-    if (cell && cell.color === color) {
-      pieces.push({row: r, col: c, isNode: cell.isNode || false});
-      emptyGaps = 0; // Reset gap counter when we find a piece
-    } else if (!cell) {
-      emptyGaps++;
-      if (emptyGaps > 2) break; // Stop if more than 2 consecutive empty cells
-    } else {
-      // Opponent piece blocks the line
-      break;
-    }
-    
-    r += dr;
-    c += dc;
-  }
-  
-  return pieces;
-};
-
-// CRITICAL: Detect immediate winning moves for the AI (3 links in a row with empty space)
-const detectImmediateWin = (board: (Cell | null)[][], playerColor: 'white' | 'black'): {row: number, col: number}[] => {
-  const winningMoves: {row: number, col: number}[] = [];
-  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]]; // All 4 main directions
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      for (const [dr, dc] of directions) {
-        // Check for pattern: Link-Link-Empty-Link or Link-Empty-Link-Link or Empty-Link-Link-Link
-        const positions = [];
-        for (let i = 0; i < 4; i++) {
-          const r = row + i * dr;
-          const c = col + i * dc;
-          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
-            positions.push({row: r, col: c, cell: board[r][c]});
-          }
-        }
-        
-        if (positions.length === 4) {
-          const nodes = positions.filter(p => p.cell?.color === playerColor && p.cell?.isNode);
-          const empties = positions.filter(p => isEmptyCell(board, p.row, p.col));
-          
-          // Check if we have exactly 3 nodes and 1 empty in the line
-          if (nodes.length === 3 && empties.length === 1) {
-            // Verify this empty position can create a nexus (4 in a row)
-            const emptyPos = empties[0];
-            if (isValidMove(board, emptyPos.row, emptyPos.col, playerColor)) {
-              // Test if placing a node here would create a nexus
-              const testBoard = board.map(r => [...r]);
-              testBoard[emptyPos.row][emptyPos.col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-              const nexus = checkForNexus(testBoard, emptyPos.row, emptyPos.col, playerColor);
-              if (nexus) {
-                winningMoves.push({row: emptyPos.row, col: emptyPos.col});
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  return winningMoves;
-};
-
-// 1. THREE NODE THREAT: Detect if opponent has 3 connected nodes with 1 empty gap
-const detectThreeNodeThreat = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
-  const threats: {row: number, col: number}[] = [];
-  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]]; // All 4 main directions
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      for (const [dr, dc] of directions) {
-        // Check for pattern: Node-Node-Empty-Node or Node-Empty-Node-Node or Empty-Node-Node-Node
-        const positions = [];
-        for (let i = 0; i < 4; i++) {
-          const r = row + i * dr;
-          const c = col + i * dc;
-          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
-            positions.push({row: r, col: c, cell: board[r][c]});
-          }
-        }
-        
-        if (positions.length === 4) {
-          const nodes = positions.filter(p => p.cell?.color === opponentColor && p.cell?.isNode);
-          const empties = positions.filter(p => isEmptyCell(board, p.row, p.col));
-          
-          // Check if we have exactly 3 nodes and 1 empty in the line
-          if (nodes.length === 3 && empties.length === 1) {
-            threats.push({row: empties[0].row, col: empties[0].col});
-          }
-        }
-      }
-    }
-  }
-  
-  return threats;
-};
+}
 
-// 2. NEXUS FORK: Detect if opponent can create double threat by placing node in center
-const detectNexusFork = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
-  const forkThreats: {row: number, col: number}[] = [];
-  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]];
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (!isEmptyCell(board, row, col)) continue;
-      
-      for (const [dr, dc] of directions) {
-        // Check for pattern: Node-Empty-Node-Empty-[THIS CELL]-Empty-Node
-        // This would create two threats if opponent places node here
-        
-        let nodesOnLeft = 0;
-        let nodesOnRight = 0;
-        
-        // Check left side (2 positions)
-        for (let i = 1; i <= 2; i++) {
-          const r = row - i * dr;
-          const c = col - i * dc;
-          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
-            const cell = board[r][c];
-            if (cell?.color === opponentColor && cell?.isNode) {
-              nodesOnLeft++;
-            }
-          }
-        }
-        
-        // Check right side (2 positions)
-        for (let i = 1; i <= 2; i++) {
-          const r = row + i * dr;
-          const c = col + i * dc;
-          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
-            const cell = board[r][c];
-            if (cell?.color === opponentColor && cell?.isNode) {
-              nodesOnRight++;
-            }
-          }
-        }
-        
-        // If placing a node here would connect with nodes on both sides
-        // and create 3+ connected nodes, it's a fork threat
-        if (nodesOnLeft >= 1 && nodesOnRight >= 1 && (nodesOnLeft + nodesOnRight >= 2)) {
-          forkThreats.push({row, col});
-        }
-      }
-    }
-  }
-  
-  return forkThreats;
+// Finished online game as listed by the server's game archive
+interface ArchivedGame {
+  id: string;
+  white: string;
+  black: string;
+  whiteUserId: number | null;
+  blackUserId: number | null;
+  timeControl: string;
+  moveCount: number;
+  result: 'white' | 'black' | 'draw';
+  reason: GameTermination;
+  startedAt: string;
+  endedAt: string;
+}
+
+const TERMINATION_LABELS: Record<GameTermination, string> = {
+  igo: 'Igo',
+  wego: 'Wego',
+  timeout: 'time',
+  resignation: 'resignation',
+  draw: 'agreement',
+  disconnection: 'disconnection'
 };
 
-// 2b. VECTOR-TO-FORK THREAT: Detect if opponent can create fork by first forming vector
-const detectVectorToForkThreat = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
-  const vectorToForkThreats: {row: number, col: number}[] = [];
-  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]];
-  
-  // For each empty cell, check if opponent placing there creates a vector that leads to fork
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (!isEmptyCell(board, row, col)) continue;
-      
-      // Simulate opponent placing a piece here
-      const testBoard = board.map(r => [...r]);
-      testBoard[row][col] = { color: opponentColor, isNode: false };
-      
-      // Check if this creates any vectors
-      const vectors = checkForVectors(testBoard, row, col, opponentColor);
-      
-      if (vectors.length > 0) {
-        // Simulate the vector formation (piece becomes node, others removed)
-        const postVectorBoard = testBoard.map(r => [...r]);
-        
-        // Process each vector
-        for (const vector of vectors) {
-          // The placed piece becomes a node
-          postVectorBoard[row][col] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-          
-          // Remove other pieces in the vector (except the new node)
-          for (const pos of vector) {
-            if (pos.row !== row || pos.col !== col) {
-              postVectorBoard[pos.row][pos.col] = null;
-            }
-          }
-        }
-        
-        // Now check if this results in a nexus fork situation
-        // Look for 2+ connected nodes with empty cells on both ends
-        for (const [dr, dc] of directions) {
-          const line = [];
-          
-          // Build line in this direction starting from the new node
-          for (let i = -3; i <= 3; i++) {
-            const r = row + i * dr;
-            const c = col + i * dc;
-            if (r >= 0 && r < 8 && c >= 0 && c < 8) {
-              line.push({
-                row: r, 
-                col: c, 
-                cell: postVectorBoard[r][c],
-                isEmpty: isEmptyCell(postVectorBoard, r, c)
-              });
-            }
-          }
-          
-          // Look for patterns like: Empty-Node-Node-Empty or Empty-Node-Node-Node-Empty
-          for (let start = 0; start < line.length - 3; start++) {
-            const segment = line.slice(start, start + 4);
-            const nodes = segment.filter(p => p.cell?.color === opponentColor && p.cell?.isNode);
-            const empties = segment.filter(p => p.isEmpty);
-            
-            // If we have 2+ nodes with empties on both ends, it's a fork threat
-            if (nodes.length >= 2 && segment[0].isEmpty && segment[segment.length - 1].isEmpty) {
-              vectorToForkThreats.push({row, col});
-              break;
-            }
-          }
-        }
-      }
-    }
-  }
-  
-  return vectorToForkThreats;
+// Archived games fetched at a time in My Games
+const MY_GAMES_PAGE_SIZE = 20;
+
+const INITIAL_BOARD: (Cell | null)[][] = createEmptyBoard();
+
+// Authentication validation functions
+const validateEmail = (email: string): boolean => {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
 };
 
-// 3. VECTOR TRAP: Check if forming vector removes defending ions
-const detectVectorTrap = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-  const opponentColor = playerColor === 'white' ? 'black' : 'white';
-  
-  // Simulate placing the piece and forming vectors
-  const testBoard = board.map(r => [...r]);
-  testBoard[row][col] = { color: playerColor, isNode: false };
-  
-  const vectors = checkForVectors(testBoard, row, col, playerColor);
-  
-  if (vectors.length === 0) return false; // No vector formed, no trap
-  
-  // For each vector, check what ions would be removed
-  for (const vector of vectors) {
-    for (const pos of vector) {
-      if (pos.row === row && pos.col === col) continue; // Skip the new piece
-      
-      // This ion would be removed - check if it was defending anything critical
-      const ionRow = pos.row;
-      const ionCol = pos.col;
-      
-      // Temporarily remove this ion and check for new threats
-      const boardWithoutIon = testBoard.map(r => [...r]);
-      boardWithoutIon[ionRow][ionCol] = null;
-      
-      // Check if removing this ion exposes us to Three Node Threat
-      const threeNodeThreats = detectThreeNodeThreat(boardWithoutIon, opponentColor);
-      if (threeNodeThreats.some(threat => threat.row === ionRow && threat.col === ionCol)) {
-        return true; // This is a trap!
-      }
-      
-      // Check if removing this ion exposes us to Nexus Fork
-      const nexusForksExposed = detectNexusFork(boardWithoutIon, opponentColor);
-      if (nexusForksExposed.some(fork => fork.row === ionRow && fork.col === ionCol)) {
-        return true; // This is a trap!
-      }
-    }
-  }
-  
-  return false;
+const validateUsername = (username: string): boolean => {
+  const usernameRegex = /^[a-zA-Z][a-zA-Z0-9]{5,19}$/;
+  return usernameRegex.test(username);
 };
 
-// Simple AI logic
-// AI Helper Functions
-const evaluateMove = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black', difficulty: 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4'): number => {
-  // For AI-4, use the advanced evaluation
-  if (difficulty === 'ai-4') {
-    const testBoard = makeMove(board, row, col, playerColor);
-    return evaluatePosition(testBoard, playerColor);
-  }
-  
-  // Original evaluation for AI-1, AI-2, AI-3
-  let score = 0;
-  const opponentColor = playerColor === 'white' ? 'black' : 'white';
-  
-  // Create a copy of the board with the move played
-  const testBoard = board.map(r => [...r]);
-  
-  // ABSOLUTE PRIORITY 0: Immediate Nexus Win (check if this move wins the game)
-  testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-  const immediateNexus = checkForNexus(testBoard, row, col, playerColor);
-  if (immediateNexus) {
-    score += 100000; // MASSIVE BONUS - ALWAYS TAKE WINNING MOVES!
-  }
-  
-  // Reset the test board for other checks
-  testBoard[row][col] = { color: playerColor, isNode: false };
-  
-  // PRIORITY 1: Vector Formation (immediate win condition)
-  const vectors = checkForVectors(testBoard, row, col, playerColor);
-  if (vectors.length > 0) {
-    score += 1000 * vectors.length; // Massive bonus for forming vectors
-  }
-  
-  // ENHANCED PRIORITY 2: Advanced Threat Detection for AI-3
-  if (difficulty === 'ai-3') {
-    // Check for Three Node Threats (MUST BLOCK)
-    const threeNodeThreats = detectThreeNodeThreat(board, opponentColor);
-    if (threeNodeThreats.some(threat => threat.row === row && threat.col === col)) {
-      score += 15000; // CRITICAL: Must block three node threat immediately
-    }
-    
-    // Check for Nexus Forks (MUST BLOCK)
-    const nexusForks = detectNexusFork(board, opponentColor);
-    if (nexusForks.some(fork => fork.row === row && fork.col === col)) {
-      score += 12000; // CRITICAL: Must block nexus fork
-    }
-    
-    // Check for Vector-to-Fork Threats (MUST BLOCK) - NEW!
-    const vectorToForkThreats = detectVectorToForkThreat(board, opponentColor);
-    if (vectorToForkThreats.some(threat => threat.row === row && threat.col === col)) {
-      score += 13000; // CRITICAL: Must block vector-to-fork setup
-    }
-    
-    // Check for Vector Trap (MUST AVOID)
-    if (detectVectorTrap(board, row, col, playerColor)) {
-      score -= 20000; // CRITICAL: Avoid vector traps at all costs
-    }
-  }
-  
-  // PRIORITY 2: Block Opponent Threats (prevent opponent from winning)
-  for (let r = 0; r < 8; r++) {
-    for (let c = 0; c < 8; c++) {
-      if (isValidMove(board, r, c, opponentColor)) {
-        const opponentTestBoard = board.map(row => [...row]);
-        opponentTestBoard[r][c] = { color: opponentColor, isNode: false };
-        const opponentVectors = checkForVectors(opponentTestBoard, r, c, opponentColor);
-        
-        // Check for nexus threat (opponent can win immediately)
-        opponentTestBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
-        const opponentNexus = checkForNexus(opponentTestBoard, r, c, opponentColor);
-        
-        if ((opponentVectors.length > 0 || opponentNexus) && r === row && c === col) {
-          score += opponentNexus ? 9000 : 800; // Massive bonus for blocking nexus, high for vectors
-        }
-      }
-    }
-  }
-  
-  // PRIORITY 3: Check for Nexus Formation (game winner)
-  testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
-  const nexus = checkForNexus(testBoard, row, col, playerColor);
-  if (nexus) {
-    score += 10000; // Instant win
-  }
-  
-  // PRIORITY 4: Node Building (scoring opportunities)
-  if (vectors.length > 0) {
-    const nodeValue = vectors.length === 1 ? 1 : vectors.length === 2 ? 2 : vectors.length === 3 ? 3 : 4;
-    score += nodeValue * 100; // Bonus based on node type
-  }
-  
-  // PRIORITY 5: Center Control (general good play)
-  const centerDistance = Math.abs(row - 3.5) + Math.abs(col - 3.5);
-  score += (7 - centerDistance) * 10; // Prefer center positions
-  
-  // PRIORITY 6: Support Structures (set up future vectors)
-  let supportCount = 0;
-  const directions = [[-1, 0], [-1, 1], [0, 1], [1, 1], [1, 0], [1, -1], [0, -1], [-1, -1]];
-  for (const [dr, dc] of directions) {
-    const adjRow = row + dr;
-    const adjCol = col + dc;
-    if (adjRow >= 0 && adjRow < 8 && adjCol >= 0 && adjCol < 8) {
-      if (board[adjRow][adjCol] && board[adjRow][adjCol]!.color === playerColor) {
-        supportCount++;
-      }
-    }
-  }
-  score += supportCount * 20; // Bonus for connecting with own pieces
-  
-  // Level 1 specific: Add some small evaluation noise to make it less perfect
-  if (difficulty === 'ai-1') {
-    score += Math.random() * 40 - 20; // ±20 point variation
-  }
+const validatePassword = (password: string): boolean => {
+  const hasUppercase = /[A-Z]/.test(password);
+  const hasLowercase = /[a-z]/.test(password);
+  const hasNumber = /\d/.test(password);
+  const hasSpecialChar = /[!@#$%^&*]/.test(password);
+  const hasMinLength = password.length >= 8;
   
-  return score;
+  return hasUppercase && hasLowercase && hasNumber && hasSpecialChar && hasMinLength;
 };
 
-// Advanced AI evaluation for Level 3 - Minimax with lookahead
-// Simplified AI evaluation - removed complex alpha-beta for performance
-
-const getAIMove = (
-  board: (Cell | null)[][],
-  difficulty: 'ai-1' | 'ai-2' | 'ai-3'
-): { row: number; col: number } | null => {
-  const validMoves: { row: number; col: number; score: number }[] = [];
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (isValidMove(board, row, col, 'black')) {
-        const score = evaluateMove(board, row, col, 'black', difficulty);
-        validMoves.push({ row, col, score });
-      }
-    }
-  }
-  if (validMoves.length === 0) return null;
-  if (difficulty === 'ai-1') {
-    validMoves.sort((a, b) => b.score - a.score);
-    const topMoves = validMoves.slice(0, Math.min(3, validMoves.length));
-    return topMoves[Math.floor(Math.random() * topMoves.length)];
-  } else if (difficulty === 'ai-2') {
-    validMoves.sort((a, b) => b.score - a.score);
-    const criticalMoves = validMoves.filter(move => move.score >= 800);
-    if (criticalMoves.length > 0) {
-      return criticalMoves[0];
-    }
-    const topMoves = validMoves.slice(0, Math.min(5, validMoves.length));
-    return topMoves[Math.floor(Math.random() * topMoves.length)];
-  } else { // AI-3 now uses MCTS
-    return mcts(board, 'black', 200, 8);
-  }
+const getPasswordStrengthMessage = (password: string): string => {
+  const issues = [];
+  if (password.length < 8) issues.push('at least 8 characters');
+  if (!/[A-Z]/.test(password)) issues.push('one uppercase letter');
+  if (!/[a-z]/.test(password)) issues.push('one lowercase letter');
+  if (!/\d/.test(password)) issues.push('one number');
+  if (!/[!@#$%^&*]/.test(password)) issues.push('one special character (!@#$%^&*)');
+  
+  return issues.length > 0 ? `Password must contain: ${issues.join(', ')}` : '';
 };
 
-// --- MCTS for AI-3 ---
-function mcts(
-  board: (Cell | null)[][],
-  playerColor: 'white' | 'black',
-  iterations: number = 200,
-  rolloutDepth: number = 8
-): { row: number; col: number } | null {
-  const validMoves = getAllValidMoves(board, playerColor);
-  if (validMoves.length === 0) return null;
-  const moveStats = validMoves.map(move => ({
-    move,
-    wins: 0,
-    playouts: 0
-  }));
-
-  for (let i = 0; i < iterations; i++) {
-    const moveIdx = Math.floor(Math.random() * validMoves.length);
-    const { row, col } = validMoves[moveIdx];
-    let simBoard = makeMove(board, row, col, playerColor);
-    let simPlayer: 'white' | 'black' = playerColor === 'white' ? 'black' : 'white';
-    let winner: 'white' | 'black' | 'draw' | null = null;
-    let depth = 0;
-    let lastMove = { row, col, player: playerColor };
-    while (depth < rolloutDepth) {
-      const moves = getAllValidMoves(simBoard, simPlayer);
-      if (moves.length === 0) {
-        // Yugo count tiebreak
-        const whiteNodes = countNodes(simBoard, 'white');
-        const blackNodes = countNodes(simBoard, 'black');
-        if (whiteNodes > blackNodes) winner = 'white';
-        else if (blackNodes > whiteNodes) winner = 'black';
-        else winner = 'draw';
-        break;
-      }
-      // Pick best move by evaluateMove (greedy rollout)
-      let bestScore = -Infinity;
-      let best = moves[0];
-      for (const m of moves) {
-        const score = evaluateMove(simBoard, m.row, m.col, simPlayer, 'ai-3');
-        if (score > bestScore) {
-          bestScore = score;
-          best = m;
-        }
-      }
-      simBoard = makeMove(simBoard, best.row, best.col, simPlayer);
-      lastMove = { row: best.row, col: best.col, player: simPlayer };
-      // Check for nexus win
-      if (checkForNexus(simBoard, best.row, best.col, simPlayer)) {
-        winner = simPlayer;
-        break;
-      }
-      simPlayer = simPlayer === 'white' ? 'black' : 'white';
-      depth++;
-    }
-    // Score for black (AI)
-    if (winner === 'black') moveStats[moveIdx].wins++;
-    moveStats[moveIdx].playouts++;
-  }
-  // Pick move with highest win rate
-  moveStats.sort((a, b) => (b.wins / b.playouts) - (a.wins / a.playouts));
-  return moveStats[0].move;
-}
-
 // Helper function to get API URL
 const getApiUrl = () => {
   return process.env.NODE_ENV === 'production' 
@@ -1559,6 +200,23 @@ const getApiUrl = () => {
     : '';
 };
 
+// randomUUID is only there in secure contexts (https or localhost)
+const randomId = (): string => {
+  if (typeof window.crypto.randomUUID === 'function') return window.crypto.randomUUID();
+  const bytes = window.crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Identifies a guest to the server so a dropped connection can rejoin its game
+const getGuestToken = (): string => {
+  let token = localStorage.getItem('migoyugoGuestToken');
+  if (!token) {
+    token = randomId();
+    localStorage.setItem('migoyugoGuestToken', token);
+  }
+  return token;
+};
+
 // Tutorial animation helper functions
 const createTutorialDot = (color: string): HTMLElement => {
   const dot = document.createElement('div');
@@ -2311,6 +969,11 @@ const App: React.FC = () => {
   const [isSearchingMatch, setIsSearchingMatch] = useState(false);
   const [userStats, setUserStats] = useState<any>(null);
   const [statsLoading, setStatsLoading] = useState(false);
+  const [showMyGames, setShowMyGames] = useState(false);
+  const [myGames, setMyGames] = useState<ArchivedGame[] | null>(null);
+  const [myGamesLoading, setMyGamesLoading] = useState(false);
+  const [myGamesHasMore, setMyGamesHasMore] = useState(false);
+  const [myGamesLoadingMore, setMyGamesLoadingMore] = useState(false);
   const [showPWABanner, setShowPWABanner] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   
@@ -2332,19 +995,70 @@ const App: React.FC = () => {
   // Review mode state
   const [isReviewMode, setIsReviewMode] = useState(false);
   const [currentReviewMove, setCurrentReviewMove] = useState(0);
+  // Variation being reviewed; currentReviewMove counts plies from the start of the game
+  const [reviewLine, setReviewLine] = useState<LineRef>([]);
   const [moveHistory, setMoveHistory] = useState<MoveHistoryEntry[]>([]);
 
 
   const [boardHistory, setBoardHistory] = useState<(Cell | null)[][][]>([]);
+  // How the current game ended, for the game record
+  const [gameOutcome, setGameOutcome] = useState<{ result: 'white' | 'black' | 'draw'; termination: GameTermination } | null>(null);
+  const [showLoadGame, setShowLoadGame] = useState(false);
+  const [mgnInput, setMgnInput] = useState('');
+  // Position local games start from, when not the empty board
+  const [startPosition, setStartPosition] = useState<PositionSetup | null>(null);
+  const [showPastePosition, setShowPastePosition] = useState(false);
+  const [positionInput, setPositionInput] = useState('');
+  // Board editor - edits gameState.board in place; the piece is null for erasing
+  const [isEditorMode, setIsEditorMode] = useState(false);
+  const [editorPiece, setEditorPiece] = useState<{ color: 'white' | 'black'; isNode: boolean } | null>({ color: 'white', isNode: false });
+  const [editorYugoType, setEditorYugoType] = useState<YugoType>('standard');
+  const [editorAnalysis, setEditorAnalysis] = useState<SearchProgress | null>(null);
+  const [editorAnalyzing, setEditorAnalyzing] = useState(false);
+  const [preEditorState, setPreEditorState] = useState<GameState | null>(null);
+  // Engine analysis of the reviewed position
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [reviewAnalysis, setReviewAnalysis] = useState<{ analysis: PositionAnalysis; done: boolean } | null>(null);
+  // Accuracy report of the finished game, worked out in its own worker
+  const [gameReport, setGameReport] = useState<GameReport | null>(null);
+  const [reportProgress, setReportProgress] = useState<ReportProgress | null>(null);
+  const [showGameReport, setShowGameReport] = useState(false);
+  const [showEvaluationGraph, setShowEvaluationGraph] = useState(false);
+  const reportClientRef = useRef<SearchClient | null>(null);
+  // Main line the report is for, so editing comments doesn't start it again
+  const reportedLineRef = useRef<string | null>(null);
   const [holdScrollInterval, setHoldScrollInterval] = useState<NodeJS.Timeout | null>(null);
 
   // Timer state
   const [timers, setTimers] = useState({ white: 600, black: 600 });
+  // Latest clock readings for the AI effect, which must not re-run on every tick
+  const timersRef = useRef(timers);
+  timersRef.current = timers;
   const [activeTimer, setActiveTimer] = useState<'white' | 'black' | null>(null);
 
   // Game mode state
-  const [gameMode, setGameMode] = useState<'local' | 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4' | 'online'>('local');
+  const [gameMode, setGameMode] = useState<'local' | 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4' | 'self-play' | 'online'>('local');
   const [waitingForAI, setWaitingForAI] = useState(false);
+  const [aiSearchProgress, setAISearchProgress] = useState<SearchProgress | null>(null);
+  const searchClientRef = useRef<SearchClient | null>(null);
+
+  // Hints in local and AI games; the count is kept per game and written to its record
+  const [hint, setHint] = useState<{ row: number; col: number; reason: HintReason | null } | null>(null);
+  const [hintPending, setHintPending] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState({ white: 0, black: 0 });
+  // Bumped on every move so a hint for an earlier position is dropped
+  const hintRequestRef = useRef(0);
+
+  // Takebacks in local and AI games. Undone moves wait here, next to redo last.
+  const [allowTakebacks, setAllowTakebacks] = useState(true);
+  const [redoStack, setRedoStack] = useState<MoveHistoryEntry[]>([]);
+  const [takebacksUsed, setTakebacksUsed] = useState(0);
+
+  // AI vs AI self-play state
+  const [selfPlayEngines, setSelfPlayEngines] = useState<{ white: AIEngine; black: AIEngine }>({ white: 'ai-2', black: 'ai-4' });
+  const [selfPlayPaused, setSelfPlayPaused] = useState(false);
+  const [selfPlayStepPending, setSelfPlayStepPending] = useState(false);
+  const [selfPlaySpeed, setSelfPlaySpeed] = useState<keyof typeof SELF_PLAY_SPEEDS>('normal');
 
   // Notification state
   const [notification, setNotification] = useState<{
@@ -2370,6 +1084,9 @@ const App: React.FC = () => {
   const [playerColor, setPlayerColor] = useState<'white' | 'black' | null>(null);
   const [opponentName, setOpponentName] = useState<string>('');
 const [opponentDisconnected, setOpponentDisconnected] = useState(false);
+  // When the disconnected opponent's seat is given up, and seconds left until then
+  const [reconnectDeadline, setReconnectDeadline] = useState<number | null>(null);
+  const [reconnectSecondsLeft, setReconnectSecondsLeft] = useState(0);
   const [timerEnabled, setTimerEnabled] = useState(true);
   const [minutesPerPlayer, setMinutesPerPlayer] = useState(10);
   const [incrementSeconds, setIncrementSeconds] = useState(0);
@@ -2382,53 +1099,41 @@ const [opponentDisconnected, setOpponentDisconnected] = useState(false);
   }>({ requested: false, fromPlayer: null });
   const [toast, setToast] = useState<string | null>('');
 
-  // Generate copyable game results
-  const generateGameResults = () => {
-    const date = new Date().toLocaleDateString();
-    const time = new Date().toLocaleTimeString();
-    const gameModeText = gameMode === 'online' ? 'Online Game' : 'Local Game';
-    const winner = gameState.gameStatus === 'finished' ? 
-      (gameState.scores.white > gameState.scores.black ? 'White' : 
-       gameState.scores.black > gameState.scores.white ? 'Black' : 'Draw') : 'Game in Progress';
-    
-    // Helper function to get Yugo symbol based on vector count
-    const getYugoSymbol = (vectors: number) => {
-      if (vectors === 0) return '';
-      if (vectors === 1) return ' ●';  // Standard Yugo (dot)
-      if (vectors === 2) return ' ○';  // Double Yugo (small circle)
-      if (vectors === 3) return ' △';  // Triple Yugo (triangle)
-      if (vectors === 4) return ' ◇';  // Quadruple Yugo (diamond)
-      return ' ●'; // Fallback
-    };
-    
-    let result = `Migoyugo Game Results\n`;
-    result += `Date: ${date} ${time}\n`;
-    result += `Mode: ${gameModeText}\n`;
-    result += `Result: ${winner}\n`;
-    result += `Final Score - White: ${gameState.scores.white} Yugos, Black: ${gameState.scores.black} Yugos\n\n`;
-    
-    if (moveHistory.length > 0) {
-      result += `Move History:\n`;
-      for (let i = 0; i < moveHistory.length; i += 2) {
-        const moveNumber = Math.floor(i / 2) + 1;
-        const whiteMove = moveHistory[i];
-        const blackMove = moveHistory[i + 1];
-        
-        const whiteNotation = whiteMove ? getNotation(whiteMove.col, whiteMove.row) : '';
-        const blackNotation = blackMove ? getNotation(blackMove.col, blackMove.row) : '';
-        const whiteNode = whiteMove ? getYugoSymbol(whiteMove.vectors) : '';
-        const blackNode = blackMove ? getYugoSymbol(blackMove.vectors) : '';
-        
-        result += `${moveNumber}. ${whiteNotation}${whiteNode}   ${blackNotation}${blackNode}\n`;
-      }
-    }
-    
-    return result;
+  // Game record in MGN for copying or saving
+  const generateGameRecord = () => writeMgn({
+    tags: {
+      Date: mgnDate(new Date()),
+      White: gameState.players.white,
+      Black: gameState.players.black,
+      Mode: gameMode,
+      TimeControl: timerEnabled ? `${minutesPerPlayer * 60}+${incrementSeconds}` : '-',
+      ...(startPosition ? { Position: encodePosition(startPosition.position, startPosition.moveNumber) } : {}),
+      ...(hintsUsed.white + hintsUsed.black > 0 ? { WhiteHints: String(hintsUsed.white), BlackHints: String(hintsUsed.black) } : {}),
+      ...(takebacksUsed > 0 ? { Takebacks: String(takebacksUsed) } : {})
+    },
+    moves: toMgnMoves(moveHistory),
+    result: gameOutcome ? gameOutcome.result : null,
+    termination: gameOutcome ? gameOutcome.termination : null
+  });
+
+  const copyGameRecord = () => {
+    navigator.clipboard.writeText(generateGameRecord()).then(() => {
+      setToast('Game record copied to clipboard!');
+      setTimeout(() => setToast(''), 3000);
+    }).catch(() => {
+      setToast('Failed to copy game record');
+      setTimeout(() => setToast(''), 3000);
+    });
   };
+
   const [showResignConfirmation, setShowResignConfirmation] = useState(false);
   const [showResignDrawModal, setShowResignDrawModal] = useState(false);
   const [showDrawOffer, setShowDrawOffer] = useState(false);
   const [pendingDrawFrom, setPendingDrawFrom] = useState<string | null>(null);
+  const [showTakebackRequest, setShowTakebackRequest] = useState(false);
+  const [pendingTakebackFrom, setPendingTakebackFrom] = useState<string | null>(null);
+  // Moves the pending takeback would undo: the asker's last move, and any reply to it
+  const [pendingTakebackPlies, setPendingTakebackPlies] = useState(1);
   const [originalGameState, setOriginalGameState] = useState<GameState | null>(null);
   const [showMobileControls, setShowMobileControls] = useState(false);
 
@@ -2794,7 +1499,8 @@ const [opponentDisconnected, setOpponentDisconnected] = useState(false);
         auth: {
           token: token,
           isGuest: authState.isGuest,
-          user: authState.user
+          user: authState.user,
+          guestToken: authState.isGuest ? getGuestToken() : undefined
         }
       });
       setSocket(newSocket);
@@ -2821,6 +1527,10 @@ setOpponentDisconnected(false);
           ...data.gameState,
           gameStatus: 'active'
         }));
+        setStartPosition(null);
+        setHintsUsed({ white: 0, black: 0 });
+        setTakebacksUsed(0);
+        setRedoStack([]);
         
         // Apply standard timer settings for online games
         if (data.timerSettings) {
@@ -2874,6 +1584,9 @@ setOpponentDisconnected(false);
       });
 
       newSocket.on('moveUpdate', (moveData) => {
+        // The server drops a takeback request once another move is made
+        setShowTakebackRequest(false);
+        setPendingTakebackFrom(null);
         // Play appropriate sound effects
         if (moveData.gameOver && moveData.nexus) {
           playSound('nexus'); // Nexus formed
@@ -2942,6 +1655,7 @@ setOpponentDisconnected(false);
         }
 
         if (moveData.gameOver) {
+          setGameOutcome({ result: moveData.winner, termination: moveData.nexus ? 'igo' : 'wego' });
           let message = '';
           if (moveData.winner === 'draw') {
             if (moveData.wegoOccurred) {
@@ -2976,6 +1690,12 @@ setOpponentDisconnected(false);
       newSocket.on('gameEnd', (data) => {
         setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
         setActiveTimer(null);
+        setGameOutcome({
+          result: data.reason === 'draw' ? 'draw' : data.winner,
+          termination: ['draw', 'resignation', 'timeout', 'disconnection'].includes(data.reason) ? data.reason : 'igo'
+        });
+        setOpponentDisconnected(false);
+        setReconnectDeadline(null);
         
         // Update timers if provided (for timeout scenarios)
         if (data.timers) {
@@ -2991,6 +1711,8 @@ setOpponentDisconnected(false);
             message = `${data.winner} wins by resignation!`;
           } else if (data.reason === 'timeout') {
             message = `${data.winner} wins on time!`;
+          } else if (data.reason === 'disconnection') {
+            message = `${data.winner} wins - the opponent did not reconnect.`;
           } else {
             message = `${data.winner} wins!`;
           }
@@ -3006,11 +1728,18 @@ setOpponentDisconnected(false);
       newSocket.on('opponentDisconnected', (data) => {
   console.log('Opponent disconnected:', data);
   setOpponentDisconnected(true);
+  setReconnectDeadline(data && data.graceSeconds ? Date.now() + data.graceSeconds * 1000 : null);
+});
+
+// The server's word that the grace period is over, whatever our clock says
+newSocket.on('winClaimable', () => {
+  setReconnectDeadline(Date.now());
 });
 
 newSocket.on('opponentReconnected', () => {
   console.log('Opponent reconnected');
   setOpponentDisconnected(false);
+  setReconnectDeadline(null);
 });
 
 newSocket.on('gameReconnected', (data) => {
@@ -3025,9 +1754,16 @@ newSocket.on('gameReconnected', (data) => {
     ...data.gameState,
     gameStatus: 'active'
   }));
+  setMoveHistory((data.moveHistory || []).map((move: Omit<MoveHistoryEntry, 'moveNumber'>, index: number) => ({
+    ...move,
+    moveNumber: index + 1
+  })));
+  setGameOutcome(null);
+  setStartPosition(null);
   setTimers(data.timers);
   setActiveTimer(data.gameState.currentPlayer);
   setOpponentDisconnected(false);
+  setReconnectDeadline(null);
   setIsGameStarted(true);
   
   // Set game mode and hide menus
@@ -3076,6 +1812,7 @@ newSocket.on('gameReconnected', (data) => {
         // Exit review mode immediately if currently in review
         setIsReviewMode(false);
         setCurrentReviewMove(0);
+        setReviewLine([]);
         setOriginalGameState(null);
         
         // Reset rematch state
@@ -3097,6 +1834,10 @@ setOpponentDisconnected(false);
           gameStatus: 'active'
         }));
         setMoveHistory([]);
+        setGameOutcome(null);
+        setStartPosition(null);
+        setHintsUsed({ white: 0, black: 0 });
+        setTakebacksUsed(0);
         setNotification({ title: '', message: '', show: false });
         
         // Reset timers from server data
@@ -3135,6 +1876,7 @@ setOpponentDisconnected(false);
       newSocket.on('drawAccepted', () => {
         console.log('Draw offer accepted');
         setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
+        setGameOutcome({ result: 'draw', termination: 'draw' });
         setIsGameStarted(false);
         // Add 1 second delay for players to see the final position
         setTimeout(() => {
@@ -3152,6 +1894,40 @@ setOpponentDisconnected(false);
         showToast('Opponent declined the draw offer');
       });
 
+      // Takeback events
+      newSocket.on('takebackRequested', (data) => {
+        console.log('Takeback request received from opponent');
+        setPendingTakebackFrom(data.fromPlayer);
+        setPendingTakebackPlies(data.plies || 1);
+        setShowTakebackRequest(true);
+      });
+
+      newSocket.on('takebackAccepted', (data) => {
+        console.log('Takeback accepted:', data);
+        setShowTakebackRequest(false);
+        setPendingTakebackFrom(null);
+        setMoveHistory(prev => prev.slice(0, data.moveCount));
+        setGameState(prev => ({
+          ...prev,
+          board: data.board,
+          currentPlayer: data.currentPlayer,
+          scores: data.scores,
+          lastMove: data.lastMove,
+          nexusLine: null
+        }));
+        setTimers(data.timers);
+        setActiveTimer(data.currentPlayer);
+        setTakebacksUsed(prev => prev + 1);
+        setNewlyPlacedDots(new Set());
+        setFadingDots(new Set());
+        showToast(`${data.fromPlayer === 'white' ? 'White' : 'Black'} took back ${data.plies === 1 ? 'a move' : `${data.plies} moves`}`);
+      });
+
+      newSocket.on('takebackDeclined', (data) => {
+        console.log('Takeback declined');
+        showToast(data && data.reason ? data.reason : 'Opponent declined the takeback');
+      });
+
       // Room-based multiplayer event handlers
       newSocket.on('roomCreated', (data) => {
         setCurrentRoom({
@@ -3235,6 +2011,7 @@ setOpponentDisconnected(false);
           // Time out
           const winner = activeTimer === 'white' ? 'black' : 'white';
           setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
+          setGameOutcome({ result: winner, termination: 'timeout' });
           // Add 1 second delay for players to see the final position
           setTimeout(() => {
           setNotification({
@@ -3255,6 +2032,15 @@ setOpponentDisconnected(false);
 
 
 
+  // Count down the disconnected opponent's grace period
+  useEffect(() => {
+    if (reconnectDeadline === null) return;
+    const update = () => setReconnectSecondsLeft(Math.max(0, Math.ceil((reconnectDeadline - Date.now()) / 1000)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [reconnectDeadline]);
+
   const showToast = useCallback((message: string, duration: number = 4000) => {
     setToast(message);
     setTimeout(() => setToast(''), duration);
@@ -3410,6 +2196,74 @@ setOpponentDisconnected(false);
     }
   };
 
+  // One page of the signed-in player's archived online games, newest first
+  const fetchMyGames = async (offset: number): Promise<ArchivedGame[]> => {
+    const token = localStorage.getItem('authToken');
+    const response = await fetch(`${getApiUrl()}/api/games?limit=${MY_GAMES_PAGE_SIZE}&offset=${offset}`, {
+      headers: {
+        'Authorization': `Bearer ${token}`
+      }
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    return data.games;
+  };
+
+  const openMyGames = async () => {
+    if (!authState.isAuthenticated) {
+      showToast('Log in to see your past games');
+      return;
+    }
+
+    setShowMyGames(true);
+    setMyGamesLoading(true);
+    try {
+      const games = await fetchMyGames(0);
+      setMyGames(games);
+      setMyGamesHasMore(games.length === MY_GAMES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching games:', error);
+      showToast('Could not load your games');
+      setShowMyGames(false);
+    } finally {
+      setMyGamesLoading(false);
+    }
+  };
+
+  const loadMoreGames = async () => {
+    if (!myGames) return;
+    setMyGamesLoadingMore(true);
+    try {
+      const games = await fetchMyGames(myGames.length);
+      setMyGames([...myGames, ...games]);
+      setMyGamesHasMore(games.length === MY_GAMES_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching games:', error);
+      showToast('Could not load more games');
+    } finally {
+      setMyGamesLoadingMore(false);
+    }
+  };
+
+  const openArchivedGame = async (id: string) => {
+    try {
+      const token = localStorage.getItem('authToken');
+      const response = await fetch(`${getApiUrl()}/api/games/${encodeURIComponent(id)}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const data = await response.json();
+      setShowMyGames(false);
+      setShowStats(false);
+      loadGameRecord(data.game.mgn);
+    } catch (error) {
+      console.error('Error fetching game:', error);
+      showToast('Could not open that game');
+    }
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -3428,14 +2282,9 @@ setOpponentDisconnected(false);
     }
     
     const currentPlayer = gameState.currentPlayer;
-    const newBoard = gameState.board.map(r => [...r]);
-    
-    // Place the ion
-    newBoard[row][col] = { color: currentPlayer, isNode: false };
-    
-    // Check for vectors
-    const vectors = checkForVectors(newBoard, row, col, currentPlayer);
-    const { nodeType, removedCells } = processVectors(newBoard, vectors, row, col);
+    const result = applyMove({ board: gameState.board, toMove: currentPlayer }, row, col);
+    const { vectors, yugoType, removedCells, igoLine: nexus, wego, scores: newScores } = result;
+    const newBoard = result.position.board as (Cell | null)[][];
     
             // Trigger fade-out animation for removed dots
     if (removedCells.length > 0) {
@@ -3445,46 +2294,22 @@ setOpponentDisconnected(false);
     // Trigger bounce-in animation for newly placed dot
     addNewDotAnimation(row, col);
     
-    // If vectors were formed, make this cell a node
-    if (nodeType) {
-      newBoard[row][col] = { color: currentPlayer, isNode: true, nodeType };
-    }
-    
-    // Update scores
-    const newScores = {
-      white: countNodes(newBoard, 'white'),
-      black: countNodes(newBoard, 'black')
-    };
-    
-    // Check for nexus (winning condition)
-    const nexus = checkForNexus(newBoard, row, col, currentPlayer);
-    let gameOver = false;
-    let winner: 'white' | 'black' | 'draw' | null = null;
+    const gameOver = result.gameOver;
+    const winner = result.winner;
     
     // Play appropriate sound based on what happened
     if (nexus) {
-      gameOver = true;
-      winner = currentPlayer;
       playSound('nexus'); // Nexus sound takes priority
-    } else if (nodeType) {
+    } else if (yugoType) {
       playSound('vector'); // Vector sound if no nexus
     } else {
       playSound('chip'); // Regular chip placement
     }
     
-    let wegoOccurred = false;
-    if (!nexus) {
-      // Check if next player has legal moves
-      const nextPlayer = currentPlayer === 'white' ? 'black' : 'white';
-      if (!hasLegalMoves(newBoard, nextPlayer)) {
-        gameOver = true;
-        wegoOccurred = true;
-        if (newScores.white > newScores.black) winner = 'white';
-        else if (newScores.black > newScores.white) winner = 'black';
-        else winner = 'draw';
-      }
-    }
+    const wegoOccurred = !!wego;
     
+    // A new move ends any redo
+    setRedoStack([]);
     // Add to move history
     setMoveHistory(prev => [
       ...prev,
@@ -3492,7 +2317,7 @@ setOpponentDisconnected(false);
         row,
         col,
         player: currentPlayer,
-        vectors: vectors.length,
+        vectors,
         moveNumber: prev.length + 1
       }
     ]);
@@ -3506,6 +2331,7 @@ setOpponentDisconnected(false);
         gameStatus: 'finished',
         nexusLine: nexus || null
       }));
+      setGameOutcome({ result: winner as 'white' | 'black' | 'draw', termination: nexus ? 'igo' : 'wego' });
       
       let message = '';
       if (winner === 'draw') {
@@ -3534,6 +2360,10 @@ setOpponentDisconnected(false);
       }, 1000);
       setActiveTimer(null);
     } else {
+      // Fischer increment for the player who just moved
+      if (timerEnabled && incrementSeconds > 0) {
+        setTimers(prev => ({ ...prev, [currentPlayer]: prev[currentPlayer] + incrementSeconds }));
+      }
       // Switch to next player
       const nextPlayer = currentPlayer === 'white' ? 'black' : 'white';
       setGameState(prev => ({
@@ -3546,9 +2376,9 @@ setOpponentDisconnected(false);
         nexusLine: null
       }));
     }
-  }, [gameState.board, gameState.currentPlayer, setMoveHistory, setGameState, setNotification, setActiveTimer]);
+  }, [gameState.board, gameState.currentPlayer, timerEnabled, incrementSeconds, setMoveHistory, setGameState, setNotification, setActiveTimer]);
 
-  // AI move logic with human-like thinking time
+  // AI move logic - the engine budgets its time from its own clock when the game is timed
   useEffect(() => {
     console.log('AI-4 effect check:', {
       isGameStarted,
@@ -3563,51 +2393,203 @@ setOpponentDisconnected(false);
       playerColor &&
       gameState.currentPlayer !== playerColor;
 
-    const aiTurnInSelfPlay = false;
+    const aiTurnInSelfPlay = isGameStarted &&
+      gameState.gameStatus === 'active' &&
+      gameMode === 'self-play' &&
+      !isReviewMode &&
+      (!selfPlayPaused || selfPlayStepPending);
 
     if (aiTurnInStandardMode || aiTurnInSelfPlay) {
       // AI's turn
-      let minThinkTime, maxThinkTime;
-      const currentEngine = gameMode as 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4';
-
-      if (currentEngine === 'ai-1') {
-        minThinkTime = 1000;
-        maxThinkTime = 2000;
-      } else if (currentEngine === 'ai-2') {
-        minThinkTime = 1500;
-        maxThinkTime = 2500;
-      } else if (currentEngine === 'ai-3') {
-        minThinkTime = 2000;
-        maxThinkTime = 4000;
-      } else {
-        minThinkTime = 2500;
-        maxThinkTime = 5000;
+      const currentEngine: AIEngine = gameMode === 'self-play'
+        ? selfPlayEngines[gameState.currentPlayer]
+        : gameMode as AIEngine;
+      const aiColor = gameState.currentPlayer;
+      const board = gameState.board;
+      const emptySquares = board.flat().filter(cell => cell === null).length;
+      const clock = timerEnabled
+        ? { remainingMs: timersRef.current[aiColor] * 1000, incrementMs: incrementSeconds * 1000 }
+        : null;
+      const thinkTime = allocateThinkTime(currentEngine, emptySquares, clock);
+      // A timed search stops on the clock; untimed games keep the old shallow cap
+      const maxDepth = clock ? 6 : emptySquares > 56 ? 3 : 2;
+      // Untimed games have nothing to spend, so pace the moves instead of snapping them out
+      const minMoveDelay = clock ? 0
+        : gameMode === 'self-play' ? SELF_PLAY_SPEEDS[selfPlaySpeed]
+        : thinkTime;
+      console.log(`${currentEngine.toUpperCase()} thinking for up to ${Math.round(thinkTime)}ms...`);
+
+      if (!searchClientRef.current) {
+        searchClientRef.current = new SearchClient();
       }
-      const thinkTime = Math.floor(Math.random() * (maxThinkTime - minThinkTime + 1)) + minThinkTime;
-      console.log(`${currentEngine.toUpperCase()} thinking for ${thinkTime}ms...`);
-      const timeout = setTimeout(() => {
-        let aiMove;
-        if (currentEngine === 'ai-4') {
-          // Count total pieces on the board
-          const totalPieces = gameState.board.flat().filter(cell => cell !== null).length;
-          // Use depth 3 for first 8 moves, then depth 2
-          const maxDepth = totalPieces < 8 ? 3 : 2;
-          aiMove = iterativeDeepeningMinimax(gameState.board, 3000, 'black', globalTransTable, maxDepth);
-        } else {
-          aiMove = getAIMove(gameState.board, currentEngine as 'ai-1' | 'ai-2' | 'ai-3');
-        }
-        if (aiMove) {
-          console.log(`${currentEngine.toUpperCase()} selected move:`, aiMove);
-          makeLocalMove(aiMove.row, aiMove.col);
+      const searchClient = searchClientRef.current;
+      const searchStart = Date.now();
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      setWaitingForAI(true);
+      setAISearchProgress(null);
+      searchClient.start({ board, color: aiColor, engine: currentEngine, maxTimeMs: thinkTime, maxDepth }, {
+        onProgress: setAISearchProgress,
+        onResult: aiMove => {
+          timeout = setTimeout(() => {
+            setWaitingForAI(false);
+            setAISearchProgress(null);
+            if (aiMove) {
+              console.log(`${currentEngine.toUpperCase()} selected move:`, aiMove);
+              makeLocalMove(aiMove.row, aiMove.col);
+            }
+            if (aiTurnInSelfPlay) {
+              setSelfPlayStepPending(false);
+            }
+          }, Math.max(0, minMoveDelay - (Date.now() - searchStart)));
+        },
+        onError: message => {
+          console.error(`${currentEngine.toUpperCase()} search failed:`, message);
+          setWaitingForAI(false);
+          setAISearchProgress(null);
         }
-      }, thinkTime);
-      return () => clearTimeout(timeout);
+      });
+      return () => {
+        clearTimeout(timeout);
+        searchClient.cancel();
+        setWaitingForAI(false);
+        setAISearchProgress(null);
+      };
     }
-  }, [gameState.currentPlayer, gameState.gameStatus, isGameStarted, gameMode, gameState.board, makeLocalMove, playerColor]);
+  }, [gameState.currentPlayer, gameState.gameStatus, isGameStarted, gameMode, gameState.board, makeLocalMove, playerColor,
+      isReviewMode, selfPlayEngines, selfPlayPaused, selfPlayStepPending, selfPlaySpeed, timerEnabled, incrementSeconds]);
+
+  // Shut the search workers down on unmount
+  useEffect(() => {
+    return () => {
+      searchClientRef.current?.terminate();
+      reportClientRef.current?.terminate();
+    };
+  }, []);
+
+  // A hint only holds for the position it was asked in
+  useEffect(() => {
+    hintRequestRef.current++;
+    setHint(null);
+    setHintPending(false);
+  }, [moveHistory.length, isGameStarted]);
+
+  const canRequestHint = isGameStarted && gameState.gameStatus === 'active' && !isReviewMode && !waitingForAI &&
+    (gameMode === 'local' || (gameMode.startsWith('ai-') && gameState.currentPlayer === playerColor));
+
+  const requestHint = () => {
+    if (!canRequestHint || hintPending) return;
+    const board = gameState.board;
+    const color = gameState.currentPlayer;
+    const requestId = ++hintRequestRef.current;
+    if (!searchClientRef.current) {
+      searchClientRef.current = new SearchClient();
+    }
+    setHint(null);
+    setHintPending(true);
+    searchClientRef.current.start(
+      { board: cloneBoard(board), color, engine: 'ai-4', maxTimeMs: HINT_TIME_MS, maxDepth: HINT_MAX_DEPTH },
+      {
+        onResult: move => {
+          if (hintRequestRef.current !== requestId) return;
+          setHintPending(false);
+          if (!move) {
+            showToast('There is no move to suggest');
+            return;
+          }
+          setHint({ row: move.row, col: move.col, reason: explainMove(board, move, color) });
+          setHintsUsed(prev => ({ ...prev, [color]: prev[color] + 1 }));
+        },
+        onError: message => {
+          if (hintRequestRef.current !== requestId) return;
+          setHintPending(false);
+          showToast(`Hint failed: ${message}`);
+        }
+      }
+    );
+  };
+
+  // Takebacks reopen a game that ended on the board, but not one lost on time or by resigning
+  const canTakeBack = allowTakebacks && isGameStarted && !isReviewMode && !isEditorMode &&
+    (gameMode === 'local' || gameMode.startsWith('ai-')) &&
+    (gameState.gameStatus === 'active' || (!!gameOutcome && (gameOutcome.termination === 'igo' || gameOutcome.termination === 'wego')));
+
+  // Whose turn it is after `plies` moves of the game
+  const toMoveAfter = (plies: number): 'white' | 'black' => {
+    const first = startPosition ? startPosition.position.toMove : 'white';
+    return plies % 2 === 0 ? first : first === 'white' ? 'black' : 'white';
+  };
+
+  // Put the game back to the position after `history`; clocks keep their time
+  const restoreMoves = (history: MoveHistoryEntry[]) => {
+    const start = startPosition ? startPosition.position : createInitialPosition();
+    const replayed = replayMoves(history, start);
+    const last = replayed.length > 0 ? replayed[replayed.length - 1] : null;
+    const position = last ? last.position : start;
+    const board = position.board as (Cell | null)[][];
+    // Redoing the final move ends the game again
+    const over = last && last.gameOver ? last : null;
+    cancelAISearch();
+    setMoveHistory(history);
+    setGameOutcome(over ? { result: over.winner as 'white' | 'black' | 'draw', termination: over.igoLine ? 'igo' : 'wego' } : null);
+    setNewlyPlacedDots(new Set());
+    setFadingDots(new Set());
+    setGameState(prev => ({
+      ...prev,
+      board,
+      currentPlayer: position.toMove,
+      scores: getScores(board),
+      gameStatus: over ? 'finished' : 'active',
+      lastMove: last ? { ...last.move } : null,
+      nexusLine: over ? over.igoLine : null
+    }));
+    if (over) setActiveTimer(null);
+  };
+
+  // In AI games a takeback goes back to the player's own turn, taking the AI's reply with it
+  const undoMove = () => {
+    if (!canTakeBack || moveHistory.length === 0) return;
+    let keep = moveHistory.length - 1;
+    if (gameMode.startsWith('ai-')) {
+      while (keep >= 0 && toMoveAfter(keep) !== playerColor) keep--;
+      if (keep < 0) return;
+    }
+    const undone = moveHistory.slice(keep);
+    restoreMoves(moveHistory.slice(0, keep));
+    setRedoStack(prev => [...prev, ...undone.reverse()]);
+    setTakebacksUsed(prev => prev + 1);
+  };
+
+  const redoMove = () => {
+    if (!canTakeBack || redoStack.length === 0) return;
+    const redone: MoveHistoryEntry[] = [];
+    let stack = redoStack;
+    do {
+      redone.push(stack[stack.length - 1]);
+      stack = stack.slice(0, -1);
+    } while (gameMode.startsWith('ai-') && stack.length > 0 && toMoveAfter(moveHistory.length + redone.length) !== playerColor);
+    restoreMoves([...moveHistory, ...redone]);
+    setRedoStack(stack);
+  };
+
+  const cancelAISearch = () => {
+    searchClientRef.current?.cancel();
+    setWaitingForAI(false);
+    setAISearchProgress(null);
+  };
 
   const handleCellClick = (row: number, col: number) => {
+    if (isEditorMode) {
+      editCell(row, col);
+      return;
+    }
+    if (isReviewMode) {
+      playReviewMove(row, col);
+      return;
+    }
     if (!isGameStarted || gameState.gameStatus !== 'active' || isReviewMode) return;
 
+    if (gameMode === 'self-play') return;
+
     if (gameMode === 'online') {
       if (!playerColor || gameState.currentPlayer !== playerColor) return;
       if (gameState.board[row][col] !== null) return;
@@ -3619,7 +2601,7 @@ setOpponentDisconnected(false);
     } else {
       // Local game (human vs human or vs AI)
       if (
-        (gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3') &&
+        (gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3' || gameMode === 'ai-4') &&
         playerColor &&
         gameState.currentPlayer !== playerColor
       ) {
@@ -3630,6 +2612,19 @@ setOpponentDisconnected(false);
     }
   };
 
+  // Board, side to move and scores a new local game starts with
+  const startingBoard = (setup: PositionSetup | null) => setup
+    ? {
+        board: cloneBoard(setup.position.board),
+        currentPlayer: setup.position.toMove,
+        scores: getScores(setup.position.board)
+      }
+    : {
+        board: createEmptyBoard(),
+        currentPlayer: 'white' as const,
+        scores: { white: 0, black: 0 }
+      };
+
   const startGame = () => {
     console.log('===== START GAME CLICKED =====');
     console.log('Game mode:', gameMode);
@@ -3643,6 +2638,20 @@ setOpponentDisconnected(false);
     
     // Close mobile controls modal when starting any game
     setShowMobileControls(false);
+
+    // Starting from the editor plays the position being edited
+    let setup = startPosition;
+    if (isEditorMode) {
+      if (gameMode === 'online') {
+        showToast('Online games start from the empty board - close the editor first');
+        return;
+      }
+      const edited = editedPosition();
+      if (!edited) return;
+      setup = edited;
+      setStartPosition(edited);
+      closeEditor();
+    }
     
     if (gameMode === 'online') {
       console.log('📡 ONLINE MODE SELECTED');
@@ -3662,15 +2671,17 @@ setOpponentDisconnected(false);
     } else {
       // Local game start
       if (gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3' || gameMode === 'ai-4') {
-        startAIGame();
+        startAIGame(setup);
+        return;
+      }
+      if (gameMode === 'self-play') {
+        startSelfPlayGame(setup);
         return;
       }
       
-      const newBoard = Array(8).fill(null).map(() => Array(8).fill(null));
+      const start = startingBoard(setup);
       setGameState({
-        board: newBoard,
-        currentPlayer: 'white',
-        scores: { white: 0, black: 0 },
+        ...start,
         gameStatus: 'active',
         lastMove: null,
         players: { 
@@ -3681,11 +2692,15 @@ setOpponentDisconnected(false);
       });
       setIsGameStarted(true);
       setMoveHistory([]);
+      setGameOutcome(null);
+      setHintsUsed({ white: 0, black: 0 });
+      setTakebacksUsed(0);
+      setRedoStack([]);
       
       if (timerEnabled) {
         const totalSeconds = minutesPerPlayer * 60;
         setTimers({ white: totalSeconds, black: totalSeconds });
-        setActiveTimer('white');
+        setActiveTimer(start.currentPlayer);
       }
     }
   };
@@ -3753,6 +2768,7 @@ setOpponentDisconnected(false);
       // Exit review mode immediately when accepting rematch
       setIsReviewMode(false);
       setCurrentReviewMove(0);
+      setReviewLine([]);
       setOriginalGameState(null);
     } else {
       // Reset rematch state and close modal on decline
@@ -3783,8 +2799,12 @@ setOpponentDisconnected(false);
       socket.emit('resign', { gameId });
     } else {
       // Local game - handle resignation locally
-      const winner = gameState.currentPlayer === 'white' ? 'black' : 'white';
+      cancelAISearch();
+      // Against the AI it is always the human resigning, even mid-think
+      const resigningPlayer = gameMode.startsWith('ai-') && playerColor ? playerColor : gameState.currentPlayer;
+      const winner = resigningPlayer === 'white' ? 'black' : 'white';
       setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
+      setGameOutcome({ result: winner, termination: 'resignation' });
       setNotification({
         title: 'Game Over',
         message: `${winner} wins by resignation!`,
@@ -3814,6 +2834,32 @@ setOpponentDisconnected(false);
     offerDraw();
   };
 
+  const handleTakebackFromModal = () => {
+    setShowResignDrawModal(false);
+    requestTakeback();
+  };
+
+  const requestTakeback = () => {
+    if (gameMode === 'online' && socket && gameId) {
+      socket.emit('takeback-request', { gameId });
+      showToast('Takeback request sent');
+    }
+  };
+
+  const claimWin = () => {
+    if (socket && gameId) {
+      socket.emit('claim-win', { gameId });
+    }
+  };
+
+  const respondToTakebackRequest = (accept: boolean) => {
+    setShowTakebackRequest(false);
+    setPendingTakebackFrom(null);
+    if (socket && gameId) {
+      socket.emit(accept ? 'takeback-accept' : 'takeback-decline', { gameId });
+    }
+  };
+
   const cancelResignDrawModal = () => {
     setShowResignDrawModal(false);
   };
@@ -3844,6 +2890,7 @@ setOpponentDisconnected(false);
       } else {
         // Local game - end game as draw
         setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
+        setGameOutcome({ result: 'draw', termination: 'draw' });
         setIsGameStarted(false);
         // Add 1 second delay for players to see the final position
         setTimeout(() => {
@@ -3898,6 +2945,7 @@ setOpponentDisconnected(false);
   };
 
   const resetGame = () => {
+    cancelAISearch();
     setGameState({
       board: INITIAL_BOARD,
       currentPlayer: 'white',
@@ -3909,13 +2957,18 @@ setOpponentDisconnected(false);
     });
     setIsGameStarted(false);
     setMoveHistory([]);
+    setGameOutcome(null);
+    setStartPosition(null);
     setActiveTimer(null);
     setPlayerColor(null);
+    setSelfPlayPaused(false);
+    setSelfPlayStepPending(false);
     setOpponentName('');
     setGameId('');
     // Exit review mode if currently in review
     setIsReviewMode(false);
     setCurrentReviewMove(0);
+    setReviewLine([]);
     setOriginalGameState(null);
     setRematchState({
       requested: false,
@@ -4022,6 +3075,7 @@ setOpponentDisconnected(false);
     
     setOriginalGameState({ ...gameState });
     setIsReviewMode(true);
+    setReviewLine([]);
     
     // Clear any active animations
     setNewlyPlacedDots(new Set());
@@ -4029,7 +3083,7 @@ setOpponentDisconnected(false);
     
     // Start at the last move (final position) instead of move 0
     const finalMoveIndex = moveHistory.length;
-    goToMove(finalMoveIndex);
+    goToMove(finalMoveIndex, []);
   };
 
   const exitReviewMode = () => {
@@ -4039,35 +3093,250 @@ setOpponentDisconnected(false);
     }
     setIsReviewMode(false);
     setCurrentReviewMove(0);
+    setReviewLine([]);
+  };
+
+  // Load an MGN game and open it in review at its final position
+  const loadGameRecord = (text: string) => {
+    if (isGameStarted && gameState.gameStatus === 'active') {
+      showToast('Finish the current game before loading another');
+      return;
+    }
+
+    let game: ParsedGame;
+    try {
+      game = parseMgn(text);
+    } catch (error) {
+      showToast(`Could not load game: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    if (game.moves.length === 0) {
+      showToast('Could not load game: it has no moves');
+      return;
+    }
+
+    const history = historyFromMgn(game.moves, game.start ? game.start.position : createInitialPosition(), 0);
+    const final = game.results[game.results.length - 1];
+    const board = final.position.board as (Cell | null)[][];
+    const last = history[history.length - 1];
+    const loadedState: GameState = {
+      board,
+      currentPlayer: final.position.toMove,
+      scores: { ...final.scores },
+      gameStatus: 'finished',
+      lastMove: { row: last.row, col: last.col, player: last.player },
+      players: { white: game.tags.White || 'White', black: game.tags.Black || 'Black' },
+      nexusLine: final.igoLine
+    };
+
+    cancelAISearch();
+    setMoveHistory(history);
+    setBoardHistory(game.boardHistory as (Cell | null)[][][]);
+    setStartPosition(game.start);
+    setGameOutcome(game.result && game.termination ? { result: game.result, termination: game.termination } : null);
+    setHintsUsed({ white: Number(game.tags.WhiteHints) || 0, black: Number(game.tags.BlackHints) || 0 });
+    setTakebacksUsed(Number(game.tags.Takebacks) || 0);
+    setIsGameStarted(false);
+    setActiveTimer(null);
+    setGameState(loadedState);
+    setOriginalGameState(loadedState);
+    setNewlyPlacedDots(new Set());
+    setFadingDots(new Set());
+    setIsReviewMode(true);
+    setCurrentReviewMove(history.length);
+    setReviewLine([]);
+    setShowLoadGame(false);
+    setMgnInput('');
+  };
+
+  // Copy the position on the board, e.g. the one being reviewed
+  const copyPosition = () => {
+    const plies = isReviewMode ? currentReviewMove : moveHistory.length;
+    const moveNumber = moveNumberAfter(startPosition || { position: createInitialPosition(), moveNumber: 1 }, plies);
+    const text = encodePosition({ board: gameState.board, toMove: gameState.currentPlayer }, moveNumber);
+    navigator.clipboard.writeText(text).then(() => {
+      showToast(`Position copied: ${text}`);
+    }).catch(() => {
+      showToast('Failed to copy position');
+    });
+  };
+
+  // Set up a pasted position as the board the next local game starts from
+  const loadPosition = (text: string) => {
+    if (isGameStarted && gameState.gameStatus === 'active') {
+      showToast('Finish the current game before loading a position');
+      return;
+    }
+
+    let setup: PositionSetup;
+    try {
+      setup = decodePosition(text);
+    } catch (error) {
+      showToast(`Could not load position: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    const problems = findSetupProblems(setup.position);
+    if (problems.length > 0) {
+      showToast(`Could not load position: ${problems[0]}`);
+      return;
+    }
+
+    cancelAISearch();
+    setStartPosition(setup);
+    setGameState(prev => ({
+      ...prev,
+      board: cloneBoard(setup.position.board),
+      currentPlayer: setup.position.toMove,
+      scores: getScores(setup.position.board),
+      gameStatus: 'waiting',
+      lastMove: null,
+      nexusLine: null
+    }));
+    setMoveHistory([]);
+    setGameOutcome(null);
+    setIsGameStarted(false);
+    setActiveTimer(null);
+    setIsReviewMode(false);
+    setCurrentReviewMove(0);
+    setReviewLine([]);
+    setOriginalGameState(null);
+    setShowPastePosition(false);
+    setPositionInput('');
+    showToast('Position loaded - start a game to play from it');
+  };
+
+  // Board editor
+  const openEditor = () => {
+    if (isGameStarted && gameState.gameStatus === 'active') {
+      showToast('Finish the current game before editing the board');
+      return;
+    }
+    cancelAISearch();
+    // Start from whatever is on the board, e.g. a reviewed position
+    setPreEditorState(originalGameState || gameState);
+    setGameState(prev => ({ ...prev, board: cloneBoard(prev.board), gameStatus: 'waiting', lastMove: null, nexusLine: null }));
+    setIsReviewMode(false);
+    setCurrentReviewMove(0);
+    setReviewLine([]);
+    setOriginalGameState(null);
+    setNewlyPlacedDots(new Set());
+    setFadingDots(new Set());
+    setEditorAnalysis(null);
+    setIsEditorMode(true);
+  };
+
+  const closeEditor = () => {
+    cancelAISearch();
+    setEditorAnalyzing(false);
+    setEditorAnalysis(null);
+    setPreEditorState(null);
+    setIsEditorMode(false);
+  };
+
+  const cancelEditor = () => {
+    if (preEditorState) setGameState(preEditorState);
+    closeEditor();
+  };
+
+  const editCell = (row: number, col: number) => {
+    const current = gameState.board[row][col];
+    let cell: Cell | null = null;
+    if (editorPiece) {
+      cell = editorPiece.isNode
+        ? { color: editorPiece.color, isNode: true, nodeType: editorYugoType }
+        : { color: editorPiece.color, isNode: false };
+      // Clicking the same piece again takes it off
+      if (current && current.color === cell.color && current.isNode === cell.isNode && current.nodeType === cell.nodeType) {
+        cell = null;
+      }
+    }
+
+    cancelAISearch();
+    setEditorAnalyzing(false);
+    setEditorAnalysis(null);
+    setGameState(prev => {
+      const board = cloneBoard(prev.board);
+      board[row][col] = cell;
+      return { ...prev, board, scores: getScores(board) };
+    });
+  };
+
+  const clearEditorBoard = () => {
+    cancelAISearch();
+    setEditorAnalyzing(false);
+    setEditorAnalysis(null);
+    setGameState(prev => ({ ...prev, board: createEmptyBoard(), scores: { white: 0, black: 0 } }));
+  };
+
+  // The edited position, or null (with the reason shown) if it can't be played
+  const editedPosition = (): PositionSetup | null => {
+    const position = { board: gameState.board, toMove: gameState.currentPlayer };
+    const problems = findSetupProblems(position);
+    if (problems.length > 0) {
+      showToast(problems.join('. '));
+      return null;
+    }
+    return { position: { board: cloneBoard(gameState.board), toMove: gameState.currentPlayer }, moveNumber: 1 };
+  };
+
+  // Keep the edited position as the one local games start from
+  const finishEditor = () => {
+    const setup = editedPosition();
+    if (!setup) return;
+    setStartPosition(setup);
+    setMoveHistory([]);
+    setGameOutcome(null);
+    closeEditor();
+    showToast('Position set - start a game to play from it');
+  };
+
+  const analyzeEditedPosition = () => {
+    const setup = editedPosition();
+    if (!setup) return;
+    if (!searchClientRef.current) {
+      searchClientRef.current = new SearchClient();
+    }
+    setEditorAnalyzing(true);
+    setEditorAnalysis(null);
+    searchClientRef.current.start(
+      { board: cloneBoard(setup.position.board), color: setup.position.toMove, engine: 'ai-4', maxTimeMs: 5000, maxDepth: 6 },
+      {
+        onProgress: setEditorAnalysis,
+        onResult: move => {
+          setEditorAnalyzing(false);
+          // A book move arrives without any progress
+          setEditorAnalysis(prev => prev || (move ? { depth: 0, bestMove: move, score: 0 } : null));
+        },
+        onError: message => {
+          setEditorAnalyzing(false);
+          showToast(`Analysis failed: ${message}`);
+        }
+      }
+    );
   };
 
-  const goToMove = useCallback((moveIndex: number) => {
-    if (moveIndex < 0 || moveIndex > moveHistory.length) return;
+  // Go to a ply in a line of the move tree. Plies before the line starts are
+  // shown in the line it branches from.
+  const goToMove = useCallback((moveIndex: number, line: LineRef = reviewLine, tree: MoveHistoryEntry[] = moveHistory) => {
+    if (moveIndex < 0) return;
+    let ref = line;
+    let resolved = resolveLine(tree, ref);
+    while (ref.length > 0 && moveIndex < resolved.prefix.length) {
+      ref = ref.slice(0, -1);
+      resolved = resolveLine(tree, ref);
+    }
+    const moves = [...resolved.prefix, ...resolved.line];
+    if (moveIndex > moves.length) return;
     
     setCurrentReviewMove(moveIndex);
+    setReviewLine(ref);
     
     // Reconstruct board state up to this move
-    const board = Array(8).fill(null).map(() => Array(8).fill(null));
-    let currentPlayer: 'white' | 'black' = 'white';
-    
-    for (let i = 0; i < moveIndex; i++) {
-      const move = moveHistory[i];
-      const { row, col, player } = move;
-      
-      // Place the ion
-      board[row][col] = { color: player, isNode: false };
-      
-      // Check for vectors and process them
-      const vectors = checkForVectors(board, row, col, player);
-      const { nodeType } = processVectors(board, vectors, row, col);
-      
-      // If vectors were formed, make this cell a node
-      if (nodeType) {
-        board[row][col] = { color: player, isNode: true, nodeType };
-      }
-      
-      currentPlayer = player === 'white' ? 'black' : 'white';
-    }
+    const start = startPosition ? startPosition.position : createInitialPosition();
+    const replayed = replayMoves(moves.slice(0, moveIndex), start);
+    const position = replayed.length > 0 ? replayed[replayed.length - 1].position : start;
+    const board = position.board as (Cell | null)[][];
+    const currentPlayer = position.toMove;
     
     const scores = {
       white: countNodes(board, 'white'),
@@ -4075,16 +3344,13 @@ setOpponentDisconnected(false);
     };
     
     const lastMove = moveIndex > 0 ? {
-      row: moveHistory[moveIndex - 1].row,
-      col: moveHistory[moveIndex - 1].col,
-      player: moveHistory[moveIndex - 1].player
+      row: moves[moveIndex - 1].row,
+      col: moves[moveIndex - 1].col,
+      player: moves[moveIndex - 1].player
     } : null;
     
-    // Check for nexus at the final position if this is the last move
-    let nexusLine: { row: number; col: number }[] | null = null;
-    if (moveIndex === moveHistory.length && lastMove) {
-      nexusLine = checkForNexus(board, lastMove.row, lastMove.col, lastMove.player);
-    }
+    // Show the Igo if the last move made one (a variation can end in one too)
+    const nexusLine = lastMove ? checkForNexus(board, lastMove.row, lastMove.col, lastMove.player) : null;
     
     setGameState(prev => ({
       ...prev,
@@ -4094,14 +3360,188 @@ setOpponentDisconnected(false);
       lastMove,
       nexusLine
     }));
-  }, [moveHistory, setCurrentReviewMove, setGameState]);
+  }, [moveHistory, reviewLine, startPosition, setCurrentReviewMove, setGameState]);
+
+  // Last ply of the line being reviewed
+  const reviewLineEnd = (() => {
+    try {
+      const { prefix, line } = resolveLine(moveHistory, reviewLine);
+      return prefix.length + line.length;
+    } catch {
+      return moveHistory.length;
+    }
+  })();
+
+  const isLiveGame = isGameStarted && (originalGameState || gameState).gameStatus === 'active';
+
+  // After the main line changes in review, exiting review shows its new final position
+  const syncFinalPosition = (tree: MoveHistoryEntry[]) => {
+    const start = startPosition ? startPosition.position : createInitialPosition();
+    const replayed = replayMoves(tree, start);
+    const final = replayed.length > 0 ? replayed[replayed.length - 1] : null;
+    const board = (final ? final.position.board : start.board) as (Cell | null)[][];
+    setOriginalGameState(prev => prev && {
+      ...prev,
+      board,
+      currentPlayer: final ? final.position.toMove : start.toMove,
+      scores: getScores(board),
+      lastMove: final ? { ...final.move } : null,
+      nexusLine: final ? final.igoLine : null
+    });
+  };
+
+  // Play a move on the reviewed position, following or starting a variation
+  const playReviewMove = (row: number, col: number) => {
+    const start = startPosition ? startPosition.position : createInitialPosition();
+    const { prefix, line } = resolveLine(moveHistory, reviewLine);
+    const replayed = replayMoves([...prefix, ...line].slice(0, currentReviewMove), start);
+    const previous = replayed.length > 0 ? replayed[replayed.length - 1] : null;
+    const position = previous ? previous.position : start;
+
+    if (previous && previous.gameOver) {
+      showToast('The game is over in this position');
+      return;
+    }
+    if (!isValidMove(position.board, row, col, position.toMove)) {
+      if (position.board[row][col] === null) {
+        showToast('Illegal move. You may not create a line longer than 4 of your own color');
+      }
+      return;
+    }
+    const extendsMainLine = reviewLine.length === 0 && currentReviewMove === moveHistory.length;
+    if (extendsMainLine && isLiveGame) {
+      showToast('Variations branch from an earlier move while the game is in progress');
+      return;
+    }
+
+    const result = applyMove(position, row, col);
+    const entry: MoveHistoryEntry = {
+      row,
+      col,
+      player: result.move.player,
+      vectors: result.vectors,
+      moveNumber: currentReviewMove + 1
+    };
+    const { main, ref } = addMove(moveHistory, reviewLine, currentReviewMove, entry);
+    setMoveHistory(main);
+    if (extendsMainLine) syncFinalPosition(main);
+    goToMove(currentReviewMove + 1, ref, main);
+  };
+
+  const promoteReviewLine = () => {
+    if (reviewLine.length === 1 && isLiveGame) {
+      showToast('The main line is the game in progress');
+      return;
+    }
+    const { main, ref } = promoteVariation(moveHistory, reviewLine);
+    setMoveHistory(main);
+    if (ref.length === 0) syncFinalPosition(main);
+    goToMove(currentReviewMove, ref, main);
+  };
+
+  const deleteReviewLine = () => {
+    const branchPly = resolveLine(moveHistory, reviewLine).prefix.length;
+    const { main, ref } = deleteVariation(moveHistory, reviewLine);
+    setMoveHistory(main);
+    goToMove(branchPly, ref, main);
+  };
+
+  // Move that led to the reviewed position, if any
+  const reviewedMove = (() => {
+    if (currentReviewMove === 0) return null;
+    try {
+      const { prefix, line } = resolveLine(moveHistory, reviewLine);
+      return line[currentReviewMove - 1 - prefix.length] || null;
+    } catch {
+      return null;
+    }
+  })();
+
+  const annotateReviewedMove = (notes: Pick<MoveHistoryEntry, 'annotation' | 'comment'>) => {
+    setMoveHistory(updateMove(moveHistory, reviewLine, currentReviewMove - 1, move => ({ ...move, ...notes })));
+  };
+
+  // Review each finished game for the accuracy report, again if its main line changes
+  useEffect(() => {
+    const moves = moveHistory.map(({ row, col }) => ({ row, col }));
+    const line = moves.map(squareName).join(' ');
+    if (!gameOutcome || moves.length === 0) {
+      reportedLineRef.current = null;
+      reportClientRef.current?.cancel();
+      setGameReport(null);
+      setReportProgress(null);
+      setShowGameReport(false);
+      return;
+    }
+    if (reportedLineRef.current === line) return;
+    reportedLineRef.current = line;
+
+    if (!reportClientRef.current) {
+      reportClientRef.current = new SearchClient();
+    }
+    setGameReport(null);
+    setReportProgress({ analyzed: 0, total: moves.length + 1 });
+    reportClientRef.current.review(
+      { start: startPosition ? startPosition.position : createInitialPosition(), moves, maxTimeMs: REPORT_TIME_MS, maxDepth: REPORT_MAX_DEPTH },
+      {
+        onProgress: setReportProgress,
+        onReport: report => {
+          setGameReport(report);
+          setReportProgress(null);
+        },
+        onError: message => {
+          console.error('Game report failed:', message);
+          setReportProgress(null);
+        }
+      }
+    );
+  }, [gameOutcome, moveHistory, startPosition]);
+
+  // Evaluation and Yugo scores after every main line move, for the graph. The
+  // report's searched evaluations replace the static ones once it is ready.
+  const evaluationCurve = useMemo(() => {
+    if (!showEvaluationGraph) return [];
+    const start = startPosition ? startPosition.position : createInitialPosition();
+    const positions = [start, ...replayMoves(moveHistory, start).map(result => result.position)];
+    const searched = gameReport && gameReport.moves.length === moveHistory.length ? gameReport.moves : null;
+    return positions.map((position, ply) => {
+      const board = position.board as (Cell | null)[][];
+      const evaluation = searched && searched.length > 0
+        ? (ply < searched.length ? searched[ply].before : searched[ply - 1].after)
+        : evaluatePosition(board, 'white');
+      return { ply, evaluation, white: countNodes(board, 'white'), black: countNodes(board, 'black') };
+    });
+  }, [showEvaluationGraph, moveHistory, startPosition, gameReport]);
+
+  const openGameReport = () => {
+    if (!isReviewMode) enterReviewMode();
+    setShowGameReport(true);
+  };
+
+  // Re-run the analysis whenever review moves to another position
+  useEffect(() => {
+    if (!isReviewMode || !showAnalysis) return;
+    if (!searchClientRef.current) {
+      searchClientRef.current = new SearchClient();
+    }
+    const searchClient = searchClientRef.current;
+    setReviewAnalysis(null);
+    searchClient.analyze(
+      { board: gameState.board, color: gameState.currentPlayer, maxTimeMs: ANALYSIS_TIME_MS, maxDepth: ANALYSIS_MAX_DEPTH, lines: ANALYSIS_LINES },
+      {
+        onAnalysis: (analysis, done) => setReviewAnalysis({ analysis, done }),
+        onError: message => console.error('Analysis failed:', message)
+      }
+    );
+    return () => searchClient.cancel();
+  }, [isReviewMode, showAnalysis, gameState.board, gameState.currentPlayer]);
 
   const firstMove = () => {
     goToMove(0);
   };
 
   const lastMove = () => {
-    goToMove(moveHistory.length);
+    goToMove(reviewLineEnd);
   };
 
   const previousMove = useCallback(() => {
@@ -4111,10 +3551,10 @@ setOpponentDisconnected(false);
   }, [currentReviewMove, goToMove]);
 
   const nextMove = useCallback(() => {
-    if (currentReviewMove < moveHistory.length) {
+    if (currentReviewMove < reviewLineEnd) {
       goToMove(currentReviewMove + 1);
     }
-  }, [currentReviewMove, moveHistory.length, goToMove]);
+  }, [currentReviewMove, reviewLineEnd, goToMove]);
 
   // Hold-to-scroll functionality
   const startHoldScroll = (direction: 'prev' | 'next', event?: React.MouseEvent | React.TouchEvent) => {
@@ -4227,13 +3667,14 @@ setOpponentDisconnected(false);
     // Only highlight the current last move
     const isLastMove = gameState.lastMove?.row === row && gameState.lastMove?.col === col;
     const isNexusCell = gameState.nexusLine?.some(pos => pos.row === row && pos.col === col) || false;
+    const isHint = !isReviewMode && hint?.row === row && hint?.col === col;
     const isNewlyPlaced = newlyPlacedDots.has(cellKey);
     const isFading = fadingDots.has(cellKey);
     
     return (
       <div
         key={`${row}-${col}`}
-        className={`cell${isLastMove ? ' last-move' : ''}${isNexusCell ? ' nexus-cell' : ''}`}
+        className={`cell${isLastMove ? ' last-move' : ''}${isNexusCell ? ' nexus-cell' : ''}${isHint ? ' hint-cell' : ''}`}
         onClick={() => handleCellClick(row, col)}
       >
         {/* Cell coordinate labels - only show on edges like a chess board */}
@@ -4266,42 +3707,184 @@ setOpponentDisconnected(false);
     );
   };
 
+  const renderEditorPanel = () => {
+    const pieces: { label: string; piece: { color: 'white' | 'black'; isNode: boolean } | null }[] = [
+      { label: 'White Migo', piece: { color: 'white', isNode: false } },
+      { label: 'Black Migo', piece: { color: 'black', isNode: false } },
+      { label: 'White Yugo', piece: { color: 'white', isNode: true } },
+      { label: 'Black Yugo', piece: { color: 'black', isNode: true } },
+      { label: 'Erase', piece: null }
+    ];
+    const isSelected = (piece: { color: 'white' | 'black'; isNode: boolean } | null) =>
+      piece === null ? editorPiece === null : !!editorPiece && editorPiece.color === piece.color && editorPiece.isNode === piece.isNode;
+
+    return (
+      <div id="board-editor" style={{ width: '236px', margin: '10px auto 0 auto', fontSize: '0.9em' }}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px' }}>
+          {pieces.map(({ label, piece }) => (
+            <button
+              key={label}
+              className="btn"
+              onClick={() => setEditorPiece(piece)}
+              style={{ fontSize: '12px', padding: '4px 8px', outline: isSelected(piece) ? '2px solid #17a2b8' : 'none' }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div style={{ marginTop: '8px' }}>
+          <label>
+            Yugo type:{' '}
+            <select value={editorYugoType} onChange={(e) => setEditorYugoType(e.target.value as YugoType)}>
+              <option value="standard">Standard</option>
+              <option value="double">Double</option>
+              <option value="triple">Triple</option>
+              <option value="quadruple">Quadruple</option>
+            </select>
+          </label>
+        </div>
+        <div style={{ marginTop: '8px' }}>
+          <label>
+            To move:{' '}
+            <select
+              value={gameState.currentPlayer}
+              onChange={(e) => {
+                setEditorAnalysis(null);
+                setGameState(prev => ({ ...prev, currentPlayer: e.target.value as 'white' | 'black' }));
+              }}
+            >
+              <option value="white">White</option>
+              <option value="black">Black</option>
+            </select>
+          </label>
+        </div>
+        <div style={{ marginTop: '8px', display: 'flex', flexWrap: 'wrap', gap: '5px' }}>
+          <button className="btn" onClick={analyzeEditedPosition} disabled={editorAnalyzing} style={{ fontSize: '12px', padding: '4px 8px' }}>
+            Analyze with AI-4
+          </button>
+          <button className="btn" onClick={clearEditorBoard} style={{ fontSize: '12px', padding: '4px 8px' }}>
+            Clear
+          </button>
+          <button className="btn" onClick={finishEditor} style={{ fontSize: '12px', padding: '4px 8px' }}>
+            Done
+          </button>
+          <button className="btn" onClick={cancelEditor} style={{ fontSize: '12px', padding: '4px 8px' }}>
+            Cancel
+          </button>
+        </div>
+        {(editorAnalyzing || editorAnalysis) && (
+          <div style={{ marginTop: '8px', color: '#666' }}>
+            {editorAnalysis && editorAnalysis.bestMove
+              ? `Best ${getNotation(editorAnalysis.bestMove.col, editorAnalysis.bestMove.row)}${editorAnalysis.depth > 0
+                ? ` (score ${editorAnalysis.score > 0 ? '+' : ''}${Math.round(editorAnalysis.score)} for ${gameState.currentPlayer}, depth ${editorAnalysis.depth})`
+                : ' (opening book)'}`
+              : editorAnalysis ? 'No move found' : ''}
+            {editorAnalyzing && ' Analyzing...'}
+          </div>
+        )}
+        <p style={{ marginTop: '8px', color: '#666' }}>
+          Click squares to place the selected piece. Choose a mode and press Start to play from this position.
+        </p>
+      </div>
+    );
+  };
+
+  // A variation inline, in parentheses, with its own variations nested inside
+  const renderVariation = (line: MoveHistoryEntry[], ref: LineRef, firstPly: number): React.ReactNode => {
+    const blackFirst = startPosition && startPosition.position.toMove === 'black' ? 1 : 0;
+    const moveNumberAt = (ply: number) => startPosition ? moveNumberAfter(startPosition, ply) : Math.floor(ply / 2) + 1;
+    return (
+      <span>
+        (
+        {line.map((move, index) => {
+          const ply = firstPly + index;
+          const whiteMoves = (ply + blackFirst) % 2 === 0;
+          // Black's moves are numbered at the start of the line and after a nested variation
+          const numbered = whiteMoves || index === 0 || !!(line[index - 1].variations && line[index - 1].variations!.length > 0);
+          const isCurrent = isReviewMode && sameLine(ref, reviewLine) && currentReviewMove === ply + 1;
+          return (
+            <React.Fragment key={index}>
+              {index > 0 && ' '}
+              {numbered && `${moveNumberAt(ply)}${whiteMoves ? '.' : '...'} `}
+              <span
+                className={isCurrent ? 'highlighted-move' : ''}
+                onClick={() => isReviewMode && goToMove(ply + 1, ref)}
+                style={{ cursor: isReviewMode ? 'pointer' : 'default' }}
+              >
+                {getNotation(move.col, move.row)}
+                {move.vectors > 0 && <span className="node-indicator">●</span>}
+                {move.annotation && <span className="move-annotation">{move.annotation}</span>}
+              </span>
+              {move.comment && <span className="move-comment"> {`{${move.comment}}`}</span>}
+              {move.variations && move.variations.map((variation, v) => (
+                <React.Fragment key={v}>
+                  {' '}
+                  {renderVariation(variation, [...ref, { index, variation: v }], ply)}
+                </React.Fragment>
+              ))}
+            </React.Fragment>
+          );
+        })}
+        )
+      </span>
+    );
+  };
+
   const renderMoveHistory = () => {
+    const blackFirst = startPosition && startPosition.position.toMove === 'black' ? 1 : 0;
     return (
       <div className={`game-log ${isReviewMode ? 'with-review-controls' : ''}`} id="game-log">
-        {Array.from({ length: Math.ceil(moveHistory.length / 2) }, (_, pairIndex) => {
-          const whiteMove = moveHistory[pairIndex * 2];
-          const blackMove = moveHistory[pairIndex * 2 + 1];
-          const moveNumber = pairIndex + 1;
+        {Array.from({ length: Math.ceil((moveHistory.length + blackFirst) / 2) }, (_, pairIndex) => {
+          // From a set-up position with Black to move the first row has no White move
+          const whiteIndex = pairIndex * 2 - blackFirst;
+          const whiteMove = whiteIndex >= 0 ? moveHistory[whiteIndex] : undefined;
+          const blackMove = moveHistory[whiteIndex + 1];
+          const moveNumber = (startPosition ? startPosition.moveNumber : 1) + pairIndex;
           
           return (
-            <div key={pairIndex} className="log-entry">
+            <React.Fragment key={pairIndex}>
+            <div className="log-entry">
               <span className="move-number">{moveNumber}.</span>
               <span 
-                className={`white-move ${isReviewMode && whiteMove && currentReviewMove - 1 === pairIndex * 2 ? 'highlighted-move' : ''}`}
-                onClick={() => isReviewMode && whiteMove ? goToMove(pairIndex * 2 + 1) : undefined}
+                className={`white-move ${isReviewMode && whiteMove && reviewLine.length === 0 && currentReviewMove - 1 === whiteIndex ? 'highlighted-move' : ''}`}
+                onClick={() => isReviewMode && whiteMove ? goToMove(whiteIndex + 1, []) : undefined}
                 style={{ cursor: isReviewMode && whiteMove ? 'pointer' : 'default' }}
               >
                 {whiteMove ? (
                   <span>
                     {getNotation(whiteMove.col, whiteMove.row)}
                     {whiteMove.vectors > 0 && <span className="node-indicator">●</span>}
+                    {whiteMove.annotation && <span className="move-annotation">{whiteMove.annotation}</span>}
                   </span>
                 ) : ''}
               </span>
               <span 
-                className={`black-move ${isReviewMode && blackMove && currentReviewMove - 1 === pairIndex * 2 + 1 ? 'highlighted-move' : ''}`}
-                onClick={() => isReviewMode && blackMove ? goToMove(pairIndex * 2 + 2) : undefined}
+                className={`black-move ${isReviewMode && blackMove && reviewLine.length === 0 && currentReviewMove - 1 === whiteIndex + 1 ? 'highlighted-move' : ''}`}
+                onClick={() => isReviewMode && blackMove ? goToMove(whiteIndex + 2, []) : undefined}
                 style={{ cursor: isReviewMode && blackMove ? 'pointer' : 'default' }}
               >
                 {blackMove ? (
                   <span>
                     {getNotation(blackMove.col, blackMove.row)}
                     {blackMove.vectors > 0 && <span className="node-indicator">●</span>}
+                    {blackMove.annotation && <span className="move-annotation">{blackMove.annotation}</span>}
                   </span>
                 ) : ''}
               </span>
             </div>
+            {[whiteIndex, whiteIndex + 1].map(index => index >= 0 && moveHistory[index] && moveHistory[index].comment && (
+              <div key={`comment-${index}`} className="move-comment">
+                {moveHistory[index].player === 'white' ? `${moveNumber}.` : `${moveNumber}...`} {moveHistory[index].comment}
+              </div>
+            ))}
+            {[whiteIndex, whiteIndex + 1].map(index => index >= 0 && moveHistory[index] && moveHistory[index].variations &&
+              moveHistory[index].variations!.map((variation, v) => (
+                <div key={`${index}-${v}`} className="variation-line" style={{ marginLeft: '20px', fontSize: '0.9em', color: '#555' }}>
+                  {renderVariation(variation, [{ index, variation: v }], index)}
+                </div>
+              ))
+            )}
+            </React.Fragment>
           );
         })}
         
@@ -4332,7 +3915,7 @@ setOpponentDisconnected(false);
                 <span className="arrow-icon">◀</span>
               </button>
               <span className="move-counter">
-                Move {currentReviewMove} of {moveHistory.length}
+                Move {currentReviewMove} of {reviewLineEnd}
               </span>
               <button 
                 className="btn" 
@@ -4342,7 +3925,7 @@ setOpponentDisconnected(false);
                 onMouseLeave={(e) => stopHoldScroll(e)}
                 onTouchStart={(e) => startHoldScroll('next', e)}
                 onTouchEnd={(e) => stopHoldScroll(e)}
-                disabled={currentReviewMove >= moveHistory.length}
+                disabled={currentReviewMove >= reviewLineEnd}
                 title="Next Move (Hold to scroll)"
               >
                 <span className="arrow-icon">▶</span>
@@ -4351,13 +3934,43 @@ setOpponentDisconnected(false);
                 className="btn" 
                 id="last-move-btn"
                 onClick={lastMove}
-                disabled={currentReviewMove >= moveHistory.length}
+                disabled={currentReviewMove >= reviewLineEnd}
                 title="Last Move"
               >
                 <span className="arrow-icon">⏭</span>
               </button>
             </div>
             <div style={{ textAlign: 'center', marginTop: '5px' }}>
+              <button 
+                className="btn" 
+                onClick={() => setShowAnalysis(prev => !prev)}
+                style={{ fontSize: '12px', padding: '4px 12px', marginRight: '5px' }}
+              >
+                {showAnalysis ? 'Hide Analysis' : 'Analysis'}
+              </button>
+              <button 
+                className="btn" 
+                onClick={() => setShowEvaluationGraph(prev => !prev)}
+                style={{ fontSize: '12px', padding: '4px 12px', marginRight: '5px' }}
+              >
+                {showEvaluationGraph ? 'Hide Graph' : 'Graph'}
+              </button>
+              {(gameReport || reportProgress) && (
+                <button 
+                  className="btn" 
+                  onClick={() => setShowGameReport(prev => !prev)}
+                  style={{ fontSize: '12px', padding: '4px 12px', marginRight: '5px' }}
+                >
+                  {showGameReport ? 'Hide Report' : 'Report'}
+                </button>
+              )}
+              <button 
+                className="btn" 
+                onClick={copyPosition}
+                style={{ fontSize: '12px', padding: '4px 12px', marginRight: '5px' }}
+              >
+                Copy Position
+              </button>
               <button 
                 className="btn" 
                 onClick={exitReviewMode}
@@ -4366,48 +3979,196 @@ setOpponentDisconnected(false);
                 Exit Review
               </button>
             </div>
+            {reviewLine.length > 0 && (
+              <div style={{ textAlign: 'center', marginTop: '5px' }}>
+                <button 
+                  className="btn" 
+                  onClick={promoteReviewLine}
+                  style={{ fontSize: '12px', padding: '4px 12px', marginRight: '5px' }}
+                >
+                  Promote Variation
+                </button>
+                <button 
+                  className="btn" 
+                  onClick={deleteReviewLine}
+                  style={{ fontSize: '12px', padding: '4px 12px' }}
+                >
+                  Delete Variation
+                </button>
+              </div>
+            )}
+            {reviewedMove && (
+              <div className="annotation-controls">
+                {MOVE_ANNOTATIONS.map(symbol => (
+                  <button
+                    key={symbol}
+                    className={`btn ${reviewedMove.annotation === symbol ? 'active' : ''}`}
+                    onClick={() => annotateReviewedMove({ annotation: reviewedMove.annotation === symbol ? undefined : symbol })}
+                    title={reviewedMove.annotation === symbol ? 'Remove annotation' : `Annotate ${symbol}`}
+                  >
+                    {symbol}
+                  </button>
+                ))}
+                <input
+                  type="text"
+                  value={reviewedMove.comment || ''}
+                  onChange={(e) => annotateReviewedMove({ comment: e.target.value.replace(/[{}]/g, '') || undefined })}
+                  placeholder={`Comment on ${getNotation(reviewedMove.col, reviewedMove.row)}`}
+                />
+              </div>
+            )}
+            {showAnalysis && renderAnalysisPanel()}
+            {showEvaluationGraph && renderEvaluationGraph()}
+            {showGameReport && renderGameReport()}
           </div>
         )}
       </div>
     );
   };
 
-  // Detects if placing a piece at (row, col) for playerColor creates three connected nodes with open ends
-  const createsDoubleEndedNodeThreat = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
-    const directions = [
-      [0, 1], [1, 0], [1, 1], [1, -1]
-    ];
-    for (const [dr, dc] of directions) {
-      let count = 1;
-      let ends = [false, false];
-      // Forward direction
-      let r = row + dr, c = col + dc;
-      while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-        count++;
-        r += dr;
-        c += dc;
-      }
-      if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) ends[0] = true;
-      // Backward direction
-      r = row - dr; c = col - dc;
-      while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor && board[r][c]?.isNode) {
-        count++;
-        r -= dr;
-        c -= dc;
-      }
-      if (r >= 0 && r < 8 && c >= 0 && c < 8 && !board[r][c]) ends[1] = true;
-      if (count === 3 && ends[0] && ends[1]) {
-        return true;
-      }
-    }
-    return false;
+  const renderAnalysisPanel = () => {
+    const evaluation = evaluatePosition(gameState.board, 'white');
+    // Share of the bar that is White's
+    const whiteShare = 100 * winChance(evaluation);
+    const analysis = reviewAnalysis && reviewAnalysis.analysis;
+    const best = analysis && analysis.candidates[0];
+    const line = (moves: { row: number; col: number }[]) => moves.map(move => getNotation(move.col, move.row)).join(' ');
+
+    return (
+      <div id="analysis-panel" style={{ marginTop: '10px', fontSize: '0.9em' }}>
+        <div
+          className="eval-bar"
+          title={`Evaluation ${formatEvaluation(evaluation)}`}
+          style={{ display: 'flex', height: '12px', border: '1px solid #999', borderRadius: '3px', overflow: 'hidden' }}
+        >
+          <div style={{ width: `${whiteShare}%`, background: '#f5f5f5' }} />
+          <div style={{ flex: 1, background: '#333' }} />
+        </div>
+        <div style={{ marginTop: '5px' }}>Evaluation: {formatEvaluation(evaluation)}</div>
+        {analysis && analysis.depth === 0 && <div style={{ color: '#666' }}>Game over - nothing to analyze</div>}
+        {best && (
+          <>
+            <div>Best move: {getNotation(best.col, best.row)} ({formatEvaluation(best.score)})</div>
+            <div style={{ color: '#666' }}>Line: {line(best.pv)}</div>
+            <div style={{ marginTop: '5px' }}>Top moves (depth {analysis!.depth}{reviewAnalysis!.done ? '' : ', searching...'}):</div>
+            <ol style={{ margin: '2px 0 0 20px', padding: 0 }}>
+              {analysis!.candidates.map(candidate => (
+                <li key={`${candidate.row}-${candidate.col}`}>
+                  {getNotation(candidate.col, candidate.row)} {formatEvaluation(candidate.score)}
+                  {candidate.pv.length > 1 && <span style={{ color: '#666' }}> {line(candidate.pv.slice(1))}</span>}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+        {!analysis && <div style={{ color: '#666' }}>Analyzing...</div>}
+      </div>
+    );
+  };
+
+  // Winning chances as a shaded area, with each side's Yugo score drawn over it
+  const renderEvaluationGraph = () => {
+    const width = 236;
+    const height = 100;
+    const last = evaluationCurve.length - 1;
+    const x = (ply: number) => (last > 0 ? (ply * width) / last : width / 2);
+    const evaluationY = (evaluation: number) => height * (1 - winChance(evaluation));
+    const topScore = Math.max(1, ...evaluationCurve.map(point => Math.max(point.white, point.black)));
+    const scoreY = (score: number) => height - 2 - (score / topScore) * (height - 4);
+    const scoreLine = (color: 'white' | 'black') =>
+      evaluationCurve.map(point => `${x(point.ply)},${scoreY(point[color])}`).join(' ');
+    const area = [`0,${height}`, ...evaluationCurve.map(point => `${x(point.ply)},${evaluationY(point.evaluation)}`), `${width},${height}`].join(' ');
+    const slot = last > 0 ? width / last : width;
+
+    return (
+      <div id="evaluation-graph" style={{ marginTop: '10px', fontSize: '0.8em' }}>
+        <svg width={width} height={height} style={{ display: 'block', border: '1px solid #999', borderRadius: '3px', background: '#333' }}>
+          <polygon points={area} fill="#f5f5f5" />
+          <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="#999" strokeDasharray="3 3" />
+          <polyline points={scoreLine('white')} fill="none" stroke="#2980b9" strokeWidth={1.5} />
+          <polyline points={scoreLine('black')} fill="none" stroke="#c0392b" strokeWidth={1.5} />
+          {reviewLine.length === 0 && (
+            <line x1={x(currentReviewMove)} y1={0} x2={x(currentReviewMove)} y2={height} stroke="#27ae60" strokeWidth={2} />
+          )}
+          {evaluationCurve.map(point => (
+            <rect
+              key={point.ply}
+              x={x(point.ply) - slot / 2}
+              y={0}
+              width={slot}
+              height={height}
+              fill="transparent"
+              style={{ cursor: 'pointer' }}
+              onClick={() => goToMove(point.ply, [])}
+            >
+              <title>
+                {point.ply === 0 ? 'Start' : `After move ${point.ply}`}: {formatEvaluation(point.evaluation)}, Yugos {point.white}-{point.black}
+              </title>
+            </rect>
+          ))}
+        </svg>
+        <div style={{ display: 'flex', justifyContent: 'space-between', color: '#666', marginTop: '2px' }}>
+          <span><span style={{ color: '#2980b9' }}>━</span> White Yugos</span>
+          <span><span style={{ color: '#c0392b' }}>━</span> Black Yugos</span>
+          <span>{gameReport ? 'AI-4 evaluation' : 'Static evaluation'}</span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderGameReport = () => {
+    const players = (originalGameState || gameState).players;
+    const flagged = gameReport ? gameReport.moves.filter(move => move.classification !== 'good') : [];
+    const count = (color: 'white' | 'black', classification: MoveReview['classification']) =>
+      gameReport ? gameReport.moves.filter(move => move.player === color && move.classification === classification).length : 0;
+    const moveLabel = (move: MoveReview) => {
+      const number = startPosition ? moveNumberAfter(startPosition, move.ply) : Math.floor(move.ply / 2) + 1;
+      return `${number}${move.player === 'white' ? '.' : '...'} ${getNotation(move.col, move.row)}`;
+    };
+
+    return (
+      <div id="game-report" style={{ marginTop: '10px', fontSize: '0.9em' }}>
+        {reportProgress && (
+          <div style={{ color: '#666' }}>Reviewing the game... position {reportProgress.analyzed} of {reportProgress.total}</div>
+        )}
+        {!gameReport && !reportProgress && <div style={{ color: '#666' }}>No report for this game</div>}
+        {gameReport && (
+          <>
+            {(['white', 'black'] as const).map(color => (
+              <div key={color}>
+                <strong>{players[color]}</strong>: {gameReport.accuracy[color]}% accuracy
+                <span style={{ color: '#666' }}>
+                  {' '}({count(color, 'inaccuracy')} inaccuracies, {count(color, 'mistake')} mistakes, {count(color, 'blunder')} blunders)
+                </span>
+              </div>
+            ))}
+            {flagged.length === 0 && <div style={{ marginTop: '5px', color: '#666' }}>No inaccuracies found</div>}
+            <ul style={{ margin: '5px 0 0 0', padding: 0, listStyle: 'none' }}>
+              {flagged.map(move => (
+                <li
+                  key={move.ply}
+                  className={`report-move report-${move.classification} ${reviewLine.length === 0 && currentReviewMove === move.ply + 1 ? 'highlighted-move' : ''}`}
+                  onClick={() => goToMove(move.ply + 1, [])}
+                  title="Go to this move"
+                >
+                  <strong>{moveLabel(move)}</strong> {CLASSIFICATION_LABELS[move.classification]}
+                  {move.missedIgo && ` - missed Igo at ${getNotation(move.missedIgo.col, move.missedIgo.row)}`}
+                  {move.missedBlock && ` - missed block at ${getNotation(move.missedBlock.col, move.missedBlock.row)}`}
+                  <span style={{ color: '#666' }}> ({formatEvaluation(move.before)} to {formatEvaluation(move.after)})</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    );
   };
 
   // Add state for player color choice
   const [playerColorChoice, setPlayerColorChoice] = useState<'white' | 'black' | 'random'>('white');
 
   // When starting a new AI game, determine playerColor based on playerColorChoice
-  const startAIGame = () => {
+  const startAIGame = (setup: PositionSetup | null = startPosition) => {
     // Defensive: default to 'white' if playerColorChoice is null/undefined
     let chosenColor: 'white' | 'black';
     if (playerColorChoice === 'random') {
@@ -4419,309 +4180,77 @@ setOpponentDisconnected(false);
     }
     setPlayerColor(chosenColor);
 
-    // Initialize the game state - White always goes first
-    const newBoard = Array(8).fill(null).map(() => Array(8).fill(null));
+    // Initialize the game state - White goes first unless starting from a set-up position
+    const start = startingBoard(setup);
     setGameState({
-      board: newBoard,
-      currentPlayer: 'white',
-      scores: { white: 0, black: 0 },
+      ...start,
       gameStatus: 'active',
       lastMove: null,
       players: {
         white: chosenColor === 'white' ? 'White' : `CORE ${gameMode.toUpperCase()}`,
-        black: chosenColor === 'black' ? 'White' : `CORE ${gameMode.toUpperCase()}`
+        black: chosenColor === 'black' ? 'Black' : `CORE ${gameMode.toUpperCase()}`
       },
       nexusLine: null
     });
     setIsGameStarted(true);
     setMoveHistory([]);
+    setGameOutcome(null);
+    setHintsUsed({ white: 0, black: 0 });
+    setTakebacksUsed(0);
+    setRedoStack([]);
 
     if (timerEnabled) {
       const totalSeconds = minutesPerPlayer * 60;
       setTimers({ white: totalSeconds, black: totalSeconds });
-      setActiveTimer(chosenColor);
+      setActiveTimer(start.currentPlayer);
     }
   };
 
-  // --- AI-4: Strongest AI ---
-  // Opening Book for first 2 moves (center and adjacent to center)
-  const openingBookAI4: { row: number; col: number }[] = [
-    { row: 3, col: 3 }, { row: 3, col: 4 }, { row: 4, col: 3 }, { row: 4, col: 4 },
-    { row: 2, col: 3 }, { row: 3, col: 2 }, { row: 5, col: 4 }, { row: 4, col: 5 }
-  ];
-
-  // Transposition Table for minimax
-  const transTableAI4: Map<string, { score: number; bestMove: { row: number; col: number } | null; depth: number }> = new Map();
-
-  function boardHash(board: (Cell | null)[][], player: 'white' | 'black', depth: number): string {
-    return JSON.stringify(board) + '|' + player + '|' + depth;
-  }
-
-  function minimaxAI4(
-    board: (Cell | null)[][],
-    depth: number,
-    alpha: number,
-    beta: number,
-    maximizingPlayer: boolean,
-    playerColor: 'white' | 'black',
-    originalDepth: number
-  ): { score: number; bestMove: { row: number; col: number } | null } {
-    const hash = boardHash(board, playerColor, depth);
-    if (transTableAI4.has(hash)) {
-      const entry = transTableAI4.get(hash)!;
-      if (entry.depth >= depth) return { score: entry.score, bestMove: entry.bestMove };
-    }
-    // Terminal or depth limit
-    const moves: { row: number; col: number }[] = getAllValidMoves(board, playerColor);
-    if (depth === 0 || moves.length === 0) {
-      const score = enhancedEvaluatePosition(board, playerColor, originalDepth - depth);
-      return { score, bestMove: null };
-    }
-    // Move ordering: sort by heuristic
-    moves.sort((a, b) => enhancedEvaluateMove(board, b.row, b.col, playerColor) - enhancedEvaluateMove(board, a.row, a.col, playerColor));
-    let bestMove: { row: number; col: number } | null = null;
-    let bestScore = maximizingPlayer ? -Infinity : Infinity;
-    for (const move of moves) {
-      const newBoard = makeMove(board, move.row, move.col, playerColor);
-      const nextPlayer: 'white' | 'black' = playerColor === 'white' ? 'black' : 'white';
-      const result = minimaxAI4(newBoard, depth - 1, alpha, beta, !maximizingPlayer, nextPlayer, originalDepth);
-      if (maximizingPlayer) {
-        if (result.score > bestScore) {
-          bestScore = result.score;
-          bestMove = move;
-        }
-        alpha = Math.max(alpha, bestScore);
-        if (beta <= alpha) break;
-      } else {
-        if (result.score < bestScore) {
-          bestScore = result.score;
-          bestMove = move;
-        }
-        beta = Math.min(beta, bestScore);
-        if (beta <= alpha) break;
-      }
-    }
-    transTableAI4.set(hash, { score: bestScore, bestMove, depth });
-    return { score: bestScore, bestMove };
-  }
+  // AI vs AI - nobody at the board is a player, the engines alternate on their own
+  const startSelfPlayGame = (setup: PositionSetup | null = startPosition) => {
+    setPlayerColor(null);
+    setSelfPlayPaused(false);
+    setSelfPlayStepPending(false);
 
-  // Enhanced evaluation function for AI-4
-  function enhancedEvaluatePosition(
-    board: (Cell | null)[][],
-    playerColor: 'white' | 'black',
-    ply: number
-  ): number {
-    // Dynamic weights: early game = center, late = threats
-    const totalPieces = board.flat().filter(cell => cell !== null).length;
-    let score = 0;
-    // Center control (early game)
-    if (totalPieces < 16) {
-      for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-        if (board[r][c]?.color === playerColor) {
-          const centerDist = Math.abs(r - 3.5) + Math.abs(c - 3.5);
-          score += (7 - centerDist) * 10;
-        }
-      }
-    }
-    // Threats, vectors, nexus (mid/late game)
-    for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-      if (board[r][c]?.color === playerColor) {
-        // Vectors
-        const vectors = checkForVectors(board, r, c, playerColor);
-        score += 2000 * vectors.length;
-        // Nexus
-        if (vectors.length > 0) {
-          const testBoard = board.map(row => [...row]);
-          testBoard[r][c] = { color: playerColor, isNode: true, nodeType: 'standard' };
-          if (checkForNexus(testBoard, r, c, playerColor)) score += 10000;
-        }
-        // Forks (multiple threats)
-        let forkCount = 0;
-        const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
-        for (const [dr, dc] of directions) {
-          let line = 1;
-          let rr = r + dr, cc = c + dc;
-          while (rr >= 0 && rr < 8 && cc >= 0 && cc < 8 && board[rr][cc]?.color === playerColor) {
-            line++;
-            rr += dr; cc += dc;
-          }
-          if (line >= 3) forkCount++;
-        }
-        if (forkCount >= 2) score += 300 * forkCount;
-        // Connectivity
-        let connections = 0;
-        for (const [dr, dc] of directions) {
-          const nr = r + dr, nc = c + dc;
-          if (nr >= 0 && nr < 8 && nc >= 0 && nc < 8 && board[nr][nc]?.color === playerColor) connections++;
-        }
-        score += connections * 25;
-      }
-      // Penalize isolated pieces
-      if (board[r][c]?.color === playerColor) {
-        let connected = false;
-        for (const [dr, dc] of [[-1,0],[1,0],[0,-1],[0,1]]) {
-          const nr = r + dr, nc = c + dc;
-          if (nr >= 0 && nr < 8 && nc >= 0 && nc < 8 && board[nr][nc]?.color === playerColor) connected = true;
-        }
-        if (!connected) score -= 50;
-      }
-    }
-    // Block opponent threats
-    const oppColor = playerColor === 'white' ? 'black' : 'white';
-    for (let r = 0; r < 8; r++) for (let c = 0; c < 8; c++) {
-      if (board[r][c]?.color === oppColor) {
-        const vectors = checkForVectors(board, r, c, oppColor);
-        score -= 1800 * vectors.length;
-        const testBoard = board.map(row => [...row]);
-        testBoard[r][c] = { color: oppColor, isNode: true, nodeType: 'standard' };
-        if (checkForNexus(testBoard, r, c, oppColor)) score -= 9500;
-      }
-    }
+    const start = startingBoard(setup);
+    setGameState({
+      ...start,
+      gameStatus: 'active',
+      lastMove: null,
+      players: {
+        white: `CORE ${selfPlayEngines.white.toUpperCase()}`,
+        black: `CORE ${selfPlayEngines.black.toUpperCase()}`
+      },
+      nexusLine: null
+    });
+    setIsGameStarted(true);
+    setMoveHistory([]);
+    setGameOutcome(null);
+    setHintsUsed({ white: 0, black: 0 });
+    setTakebacksUsed(0);
+    setRedoStack([]);
 
-    // Integrate AI-3 tactical detectors (threat awareness)
-    try {
-      // Opponent immediate/critical threats (heavily penalize)
-      const oppThreeNode = typeof detectThreeNodeThreat === 'function' ? detectThreeNodeThreat(board, oppColor) : [];
-      const oppForks = typeof detectNexusFork === 'function' ? detectNexusFork(board, oppColor) : [];
-      const oppVectorToFork = typeof detectVectorToForkThreat === 'function' ? detectVectorToForkThreat(board, oppColor) : [];
-      score -= 15000 * (oppThreeNode?.length || 0);
-      score -= 12000 * (oppForks?.length || 0);
-      score -= 13000 * (oppVectorToFork?.length || 0);
-
-      // Our own tactical chances (reward)
-      const ownThreeNode = typeof detectThreeNodeThreat === 'function' ? detectThreeNodeThreat(board, playerColor) : [];
-      const ownForks = typeof detectNexusFork === 'function' ? detectNexusFork(board, playerColor) : [];
-      const ownVectorToFork = typeof detectVectorToForkThreat === 'function' ? detectVectorToForkThreat(board, playerColor) : [];
-      score += 5000 * (ownThreeNode?.length || 0);
-      score += 4000 * (ownForks?.length || 0);
-      score += 3500 * (ownVectorToFork?.length || 0);
-    } catch {
-      // If any detector is unavailable, skip without breaking evaluation
-    }
-    // 6. Chain-building bias: reward longer chains of own color
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        const cell = board[row][col];
-        if (cell && cell.color === playerColor) {
-          // Check in all 4 directions for chains
-          const directions = [[1,0],[0,1],[1,1],[1,-1]];
-          for (const [dr,dc] of directions) {
-            let length = 1;
-            let r = row + dr, c = col + dc;
-            while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor) {
-              length++;
-              r += dr; c += dc;
-            }
-            if (length >= 2) score += length * 12; // reward longer chains
-          }
-        }
-      }
+    if (timerEnabled) {
+      const totalSeconds = minutesPerPlayer * 60;
+      setTimers({ white: totalSeconds, black: totalSeconds });
+      setActiveTimer(start.currentPlayer);
     }
-    return score;
-  }
-
-  function enhancedEvaluateMove(
-    board: (Cell | null)[][],
-    row: number,
-    col: number,
-    playerColor: 'white' | 'black'
-  ): number {
-    const testBoard = makeMove(board, row, col, playerColor);
-    return enhancedEvaluatePosition(testBoard, playerColor, 0);
-  }
+  };
 
-  // Replace getAIMove for ai-4
-  const getAIMove = (
-    board: (Cell | null)[][],
-    difficulty: 'ai-1' | 'ai-2' | 'ai-3'
-  ): { row: number; col: number } | null => {
-    const validMoves: { row: number; col: number; score: number }[] = [];
-    for (let row = 0; row < 8; row++) {
-      for (let col = 0; col < 8; col++) {
-        if (isValidMove(board, row, col, 'black')) {
-          const score = evaluateMove(board, row, col, 'black', difficulty);
-          validMoves.push({ row, col, score });
-        }
-      }
-    }
-    if (validMoves.length === 0) return null;
-    if (difficulty === 'ai-1') {
-      validMoves.sort((a, b) => b.score - a.score);
-      const topMoves = validMoves.slice(0, Math.min(3, validMoves.length));
-      return topMoves[Math.floor(Math.random() * topMoves.length)];
-    } else if (difficulty === 'ai-2') {
-      validMoves.sort((a, b) => b.score - a.score);
-      const criticalMoves = validMoves.filter(move => move.score >= 800);
-      if (criticalMoves.length > 0) {
-        return criticalMoves[0];
-      }
-      const topMoves = validMoves.slice(0, Math.min(5, validMoves.length));
-      return topMoves[Math.floor(Math.random() * topMoves.length)];
-    } else {
-      validMoves.sort((a, b) => b.score - a.score);
-      const totalMoves = board.flat().filter(cell => cell !== null).length;
-      if (totalMoves <= 2) {
-        const centerMoves = [
-          { row: 3, col: 3 }, { row: 4, col: 4 }, { row: 3, col: 4 }, { row: 4, col: 3 }
-        ];
-        for (const center of centerMoves) {
-          if (isValidMove(board, center.row, center.col, 'black')) {
-            return center;
-          }
-        }
-      }
-      const criticalMoves = validMoves.filter(move => move.score >= 9000);
-      if (criticalMoves.length > 0) {
-        return criticalMoves[0];
-      }
-      const winningMoves = validMoves.filter(move => move.score >= 1000);
-      if (winningMoves.length > 0) {
-        return winningMoves[0];
-      }
-      const topMoves = validMoves.slice(0, Math.min(5, validMoves.length));
-      for (const move of topMoves) {
-        const centerDistance = Math.abs(3.5 - move.row) + Math.abs(3.5 - move.col);
-        const centerBonus = Math.max(0, 6 - centerDistance) * 2;
-        let connectivityBonus = 0;
-        for (let dr = -1; dr <= 1; dr++) {
-          for (let dc = -1; dc <= 1; dc++) {
-            if (dr === 0 && dc === 0) continue;
-            const nr = move.row + dr;
-            const nc = move.col + dc;
-            if (nr >= 0 && nr < 8 && nc >= 0 && nc < 8 && board[nr][nc]?.color === 'black') {
-              connectivityBonus += 3;
-            }
-          }
-        }
-        move.score += centerBonus + connectivityBonus;
-      }
-      topMoves.sort((a, b) => b.score - a.score);
-      return topMoves[0];
-    }
+  const stopSelfPlayGame = () => {
+    cancelAISearch();
+    setGameState(prev => ({ ...prev, gameStatus: 'finished' }));
+    setIsGameStarted(false);
+    setActiveTimer(null);
+    setSelfPlayPaused(false);
+    setSelfPlayStepPending(false);
   };
 
-  // Add this helper function near the minimax definition or in the AI-4 section:
-  function iterativeDeepeningMinimax(
-    board: (Cell | null)[][],
-    maxTimeMs: number,
-    playerColor: 'white' | 'black',
-    transTable: TranspositionTable,
-    maxDepth: number = 3 // Add a default max depth cap
-  ): { row: number; col: number } | null {
-    const start = Date.now();
-    let bestMove: { row: number; col: number } | null = null;
-    let depth = 1;
-    while (depth <= maxDepth) { // Only go up to maxDepth
-      const now = Date.now();
-      if (now - start > maxTimeMs) break;
-      const result = minimax(board, depth, -Infinity, Infinity, true, playerColor, transTable);
-      if (result.bestMove) {
-        bestMove = result.bestMove;
-      }
-      depth++;
+  const stepSelfPlay = () => {
+    if (selfPlayPaused) {
+      setSelfPlayStepPending(true);
     }
-    return bestMove;
-  }
+  };
 
   return (
     <div className="App">
@@ -4782,8 +4311,8 @@ setOpponentDisconnected(false);
         (authState.user?.username || 'Guest') : 
         opponentName;
       return whiteName;
-    } else if ((gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3') && authState.isAuthenticated) {
-      // AI game with authenticated user - show username for white (human player)
+    } else if ((gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3') && authState.isAuthenticated && playerColor === 'white') {
+      // AI game with authenticated user playing white - show username
       return authState.user?.username;
     } else {
       // Local human vs human or unauthenticated - use gameState players
@@ -4837,6 +4366,15 @@ setOpponentDisconnected(false);
                   }}>
                     Their timer will continue to count down until they return, or time out.
                   </div>
+                  {reconnectDeadline !== null && (reconnectSecondsLeft > 0 ? (
+                    <div className="reconnect-countdown">
+                      You can claim the win in {reconnectSecondsLeft}s
+                    </div>
+                  ) : (
+                    <button className="btn reconnect-claim" onClick={claimWin}>
+                      Claim Win
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
@@ -4856,9 +4394,9 @@ setOpponentDisconnected(false);
         (authState.user?.username || 'Guest') : 
         opponentName;
       return blackName;
-    } else if ((gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3') && authState.isAuthenticated) {
-      // AI game - black is always the AI, show AI name without color label
-      return gameState.players.black;
+    } else if ((gameMode === 'ai-1' || gameMode === 'ai-2' || gameMode === 'ai-3') && authState.isAuthenticated && playerColor === 'black') {
+      // AI game with authenticated user playing black - show username
+      return authState.user?.username;
     } else {
       // Local human vs human or unauthenticated - use gameState players
       return gameState.players.black;
@@ -4882,7 +4420,7 @@ setOpponentDisconnected(false);
             <button 
               className="btn action-btn" 
               onClick={isGameStarted && gameState.gameStatus === 'active' ? 
-                (gameMode === 'online' ? showResignDrawOptions : resignGame) : startGame}
+                (gameMode === 'online' ? showResignDrawOptions : gameMode === 'self-play' ? stopSelfPlayGame : resignGame) : startGame}
               style={{ 
                 height: '40px', 
                 padding: '0 24px',
@@ -4891,8 +4429,40 @@ setOpponentDisconnected(false);
               }}
             >
               {isGameStarted && gameState.gameStatus === 'active' ? 
-                (gameMode === 'online' ? 'Resign/Draw' : 'Resign') : 'Start'}
+                (gameMode === 'online' ? 'Resign/Draw' : gameMode === 'self-play' ? 'Stop' : 'Resign') : 'Start'}
             </button>
+            {canRequestHint && (
+              <button 
+                className="btn action-btn" 
+                onClick={requestHint}
+                disabled={hintPending}
+                style={{ height: '40px', padding: '0 16px' }}
+              >
+                Hint
+              </button>
+            )}
+            {canTakeBack && (
+              <>
+                <button 
+                  className="btn action-btn" 
+                  onClick={undoMove}
+                  disabled={moveHistory.length === 0}
+                  title="Take back a move"
+                  style={{ height: '40px', padding: '0 10px' }}
+                >
+                  ↶
+                </button>
+                <button 
+                  className="btn action-btn" 
+                  onClick={redoMove}
+                  disabled={redoStack.length === 0}
+                  title="Replay a taken back move"
+                  style={{ height: '40px', padding: '0 10px' }}
+                >
+                  ↷
+                </button>
+              </>
+            )}
             <button 
               className="btn action-btn" 
               onClick={resetGame}
@@ -4931,6 +4501,7 @@ setOpponentDisconnected(false);
                     <option value="ai-1">CORE AI-1</option>
                     <option value="ai-2">CORE AI-2</option>
                     <option value="ai-3">CORE AI-3</option>
+                    <option value="self-play">CORE vs CORE</option>
                     <option value="online">Online Multiplayer</option>
                   </select>
                 </div>
@@ -4974,6 +4545,42 @@ setOpponentDisconnected(false);
                   </div>
                 )}
 
+                {/* Engine selection for AI vs AI self-play */}
+                {gameMode === 'self-play' && (['white', 'black'] as const).map(color => (
+                  <div className="option-row" key={color}>
+                    <label htmlFor={`self-play-${color}-select`}>{color === 'white' ? 'White:' : 'Black:'}</label>
+                    <select
+                      id={`self-play-${color}-select`}
+                      className="control-select"
+                      value={selfPlayEngines[color]}
+                      onChange={(e) => setSelfPlayEngines(prev => ({ ...prev, [color]: e.target.value as AIEngine }))}
+                    >
+                      {(['ai-1', 'ai-2', 'ai-3', 'ai-4'] as AIEngine[]).map(engine => (
+                        <option key={engine} value={engine}>CORE {engine.toUpperCase()}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+
+                {(gameMode === 'local' || gameMode.startsWith('ai-')) && (
+                  <div className="option-row">
+                    <label htmlFor="takeback-toggle">Takebacks:</label>
+                    <div className="toggle-container">
+                      <span className="toggle-label">Off</span>
+                      <label className="toggle small">
+                        <input 
+                          type="checkbox" 
+                          id="takeback-toggle" 
+                          checked={allowTakebacks}
+                          onChange={(e) => setAllowTakebacks(e.target.checked)}
+                        />
+                        <span className="slider round"></span>
+                      </label>
+                      <span className={`toggle-label ${allowTakebacks ? 'active' : ''}`}>On</span>
+                    </div>
+                  </div>
+                )}
+
                 <div className="option-row">
                   <label htmlFor="timer-toggle">Game Timer:</label>
                   <div className="toggle-container">
@@ -5030,6 +4637,47 @@ setOpponentDisconnected(false);
               </div>
             )}
 
+            {/* AI vs AI playback controls */}
+            {isGameStarted && gameMode === 'self-play' && gameState.gameStatus === 'active' && (
+              <div id="self-play-controls" className="option-row" style={{ width: '236px', margin: '10px auto 0 auto', gap: '6px' }}>
+                <button className="btn" onClick={() => setSelfPlayPaused(paused => !paused)} style={{ height: '32px', padding: '0 10px' }}>
+                  {selfPlayPaused ? 'Resume' : 'Pause'}
+                </button>
+                <button className="btn" onClick={stepSelfPlay} disabled={!selfPlayPaused || selfPlayStepPending} style={{ height: '32px', padding: '0 10px' }}>
+                  Step
+                </button>
+                <select
+                  id="self-play-speed-select"
+                  className="control-select"
+                  aria-label="Playback speed"
+                  value={selfPlaySpeed}
+                  onChange={(e) => setSelfPlaySpeed(e.target.value as keyof typeof SELF_PLAY_SPEEDS)}
+                >
+                  <option value="slow">Slow</option>
+                  <option value="normal">Normal</option>
+                  <option value="fast">Fast</option>
+                </select>
+              </div>
+            )}
+
+            {/* AI search status */}
+            {(hint || hintPending || (isGameStarted && hintsUsed.white + hintsUsed.black > 0)) && !isReviewMode && (
+              <div id="hint-info" style={{ width: '236px', margin: '10px auto 0 auto', fontSize: '0.9em', color: '#666' }}>
+                {hintPending && 'Looking for a hint...'}
+                {hint && (
+                  <span>
+                    Hint: <strong>{getNotation(hint.col, hint.row)}</strong>{hint.reason && ` - ${HINT_REASONS[hint.reason]}`}
+                  </span>
+                )}
+                <div>Hints used: White {hintsUsed.white}, Black {hintsUsed.black}</div>
+              </div>
+            )}
+            {waitingForAI && (
+              <div id="ai-thinking" style={{ width: '236px', margin: '10px auto 0 auto', fontSize: '0.9em', color: '#666' }}>
+                CORE is thinking{aiSearchProgress ? ` (depth ${aiSearchProgress.depth}${aiSearchProgress.bestMove ? `, best ${getNotation(aiSearchProgress.bestMove.col, aiSearchProgress.bestMove.row)}` : ''})` : ''}...
+              </div>
+            )}
+
             {/* Move History */}
             <div id="game-log-container">
               <div className="review-button-container" style={{ width: '236px', margin: '15px auto 0 auto', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
@@ -5044,7 +4692,40 @@ setOpponentDisconnected(false);
                   </button>
                 )}
               </div>
-              {renderMoveHistory()}
+              <div style={{ width: '236px', margin: '5px auto 0 auto', display: 'flex', justifyContent: 'flex-end', gap: '5px' }}>
+                {moveHistory.length > 0 && (
+                  <button className="review-button" onClick={copyGameRecord} style={{ display: 'inline-block' }}>
+                    Export
+                  </button>
+                )}
+                {!isReviewMode && (gameReport || reportProgress) && (
+                  <button className="review-button" onClick={openGameReport} style={{ display: 'inline-block' }}>
+                    Report
+                  </button>
+                )}
+                <button className="review-button" onClick={() => setShowLoadGame(true)} style={{ display: 'inline-block' }}>
+                  Load
+                </button>
+                {authState.isAuthenticated && (
+                  <button className="review-button" onClick={openMyGames} style={{ display: 'inline-block' }}>
+                    My Games
+                  </button>
+                )}
+                <button className="review-button" onClick={() => setShowPastePosition(true)} style={{ display: 'inline-block' }}>
+                  Paste Position
+                </button>
+                {!isEditorMode && (
+                  <button className="review-button" onClick={openEditor} style={{ display: 'inline-block' }}>
+                    Edit Board
+                  </button>
+                )}
+              </div>
+              {takebacksUsed > 0 && (
+                <div style={{ width: '236px', margin: '5px auto 0 auto', fontSize: '0.85em', color: '#666' }}>
+                  Takebacks used in this game: {takebacksUsed}
+                </div>
+              )}
+              {isEditorMode ? renderEditorPanel() : renderMoveHistory()}
             </div>
           </div>
 
@@ -5587,6 +5268,137 @@ setOpponentDisconnected(false);
         </>
       )}
 
+      {/* Load game modal */}
+      {showLoadGame && (
+        <>
+          <div className="overlay" style={{ display: 'block', zIndex: 10001 }} onClick={() => setShowLoadGame(false)} />
+          <div className="notification" style={{ display: 'block', zIndex: 10002 }}>
+            <h2>Load Game</h2>
+            <p>Paste a game in MGN to open it in review:</p>
+            <textarea
+              value={mgnInput}
+              onChange={(e) => setMgnInput(e.target.value)}
+              rows={10}
+              placeholder={'[White "Alice"]\n[Black "Bob"]\n\n1. d5 e4 2. c6 ...'}
+              style={{
+                width: '100%',
+                padding: '10px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '14px',
+                fontFamily: 'monospace',
+                boxSizing: 'border-box',
+                margin: '10px 0 20px 0'
+              }}
+            />
+            <div className="notification-buttons">
+              <button
+                className="btn"
+                onClick={() => loadGameRecord(mgnInput)}
+                disabled={!mgnInput.trim()}
+                style={{
+                  opacity: mgnInput.trim() ? 1 : 0.5,
+                  cursor: mgnInput.trim() ? 'pointer' : 'not-allowed'
+                }}
+              >
+                Load
+              </button>
+              <button className="btn" onClick={() => setShowLoadGame(false)}>Cancel</button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* My Games modal */}
+      {showMyGames && (
+        <>
+          <div className="overlay" style={{ display: 'block', zIndex: 10001 }} onClick={() => setShowMyGames(false)} />
+          <div className="notification" style={{ display: 'block', zIndex: 10002 }}>
+            <h2>My Games</h2>
+            {myGamesLoading ? (
+              <p>Loading...</p>
+            ) : myGames && myGames.length > 0 ? (
+              <div className="archive-list">
+                {myGames.map(game => {
+                  const myColor = String(game.whiteUserId) === String(authState.user?.id) ? 'white' : 'black';
+                  const outcome = game.result === 'draw' ? 'Drawn' : game.result === myColor ? 'Won' : 'Lost';
+                  return (
+                    <div key={game.id} className="archive-game">
+                      <div className="archive-game-info">
+                        <strong className={`archive-${outcome.toLowerCase()}`}>{outcome}</strong>
+                        {' '}vs {myColor === 'white' ? game.black : game.white} as {myColor}
+                        <div className="archive-game-details">
+                          {new Date(game.startedAt).toLocaleDateString()} · {game.moveCount} moves · by {TERMINATION_LABELS[game.reason]}
+                          {game.timeControl !== '-' && ` · ${game.timeControl}`}
+                        </div>
+                      </div>
+                      <button
+                        className="btn"
+                        onClick={() => openArchivedGame(game.id)}
+                        disabled={game.moveCount === 0}
+                      >
+                        Review
+                      </button>
+                    </div>
+                  );
+                })}
+                {myGamesHasMore && (
+                  <button className="btn archive-load-more" onClick={loadMoreGames} disabled={myGamesLoadingMore}>
+                    {myGamesLoadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                )}
+              </div>
+            ) : (
+              <p>No finished online games yet.</p>
+            )}
+            <div className="notification-buttons">
+              <button className="btn" onClick={() => setShowMyGames(false)}>Close</button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Paste position modal */}
+      {showPastePosition && (
+        <>
+          <div className="overlay" style={{ display: 'block', zIndex: 10001 }} onClick={() => setShowPastePosition(false)} />
+          <div className="notification" style={{ display: 'block', zIndex: 10002 }}>
+            <h2>Paste Position</h2>
+            <p>Paste a position string to set up the board:</p>
+            <input
+              type="text"
+              placeholder="8/8/8/8/8/8/8/8 w 1"
+              value={positionInput}
+              onChange={(e) => setPositionInput(e.target.value)}
+              style={{
+                width: '100%',
+                padding: '10px',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                fontSize: '14px',
+                fontFamily: 'monospace',
+                boxSizing: 'border-box',
+                margin: '10px 0 20px 0'
+              }}
+            />
+            <div className="notification-buttons">
+              <button
+                className="btn"
+                onClick={() => loadPosition(positionInput)}
+                disabled={!positionInput.trim()}
+                style={{
+                  opacity: positionInput.trim() ? 1 : 0.5,
+                  cursor: positionInput.trim() ? 'pointer' : 'not-allowed'
+                }}
+              >
+                Load
+              </button>
+              <button className="btn" onClick={() => setShowPastePosition(false)}>Cancel</button>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Room modal */}
       {showRoomModal && (
         <>
@@ -5874,19 +5686,10 @@ setOpponentDisconnected(false);
                   </button>
                   <button 
                     className="btn" 
-                    onClick={() => {
-                      const gameResults = generateGameResults();
-                      navigator.clipboard.writeText(gameResults).then(() => {
-                        setToast('Game results copied to clipboard!');
-                        setTimeout(() => setToast(''), 3000);
-                      }).catch(() => {
-                        setToast('Failed to copy results');
-                        setTimeout(() => setToast(''), 3000);
-                      });
-                    }}
+                    onClick={copyGameRecord}
                     style={{ backgroundColor: '#17a2b8', color: 'white' }}
                   >
-                    📋 Copy Results
+                    📋 Copy Game
                   </button>
                   <button className="btn" onClick={() => setNotification(prev => ({ ...prev, show: false }))}>
                     Close
@@ -5936,6 +5739,7 @@ setOpponentDisconnected(false);
                 <option value="ai-2">CORE AI-2</option>
                 <option value="ai-3">CORE AI-3</option>
                  <option value="ai-4">CORE AI-4</option>
+                <option value="self-play">CORE vs CORE</option>
                 <option value="online">Online Multiplayer</option>
               </select>
             </div>
@@ -5984,6 +5788,53 @@ setOpponentDisconnected(false);
               </div>
             )}
 
+            {/* Engine selection for AI vs AI self-play */}
+            {gameMode === 'self-play' && (['white', 'black'] as const).map(color => (
+              <div className="option-row" key={color} style={{ marginBottom: '20px' }}>
+                <label htmlFor={`mobile-self-play-${color}-select`} style={{ fontWeight: 'bold', fontSize: '16px' }}>
+                  {color === 'white' ? 'White:' : 'Black:'}
+                </label>
+                <select
+                  id={`mobile-self-play-${color}-select`}
+                  className="control-select"
+                  value={selfPlayEngines[color]}
+                  onChange={(e) => setSelfPlayEngines(prev => ({ ...prev, [color]: e.target.value as AIEngine }))}
+                  style={{ 
+                    width: '100%', 
+                    padding: '12px', 
+                    fontSize: '16px',
+                    border: '2px solid #ccc',
+                    borderRadius: '6px',
+                    backgroundColor: '#fff'
+                  }}
+                >
+                  {(['ai-1', 'ai-2', 'ai-3', 'ai-4'] as AIEngine[]).map(engine => (
+                    <option key={engine} value={engine}>CORE {engine.toUpperCase()}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            {/* Takeback toggle */}
+            {(gameMode === 'local' || gameMode.startsWith('ai-')) && (
+              <div className="option-row" style={{ marginBottom: '15px' }}>
+                <label htmlFor="mobile-takeback-toggle" style={{ fontWeight: 'bold', fontSize: '16px' }}>Takebacks:</label>
+                <div className="toggle-container">
+                  <span className={`toggle-label ${!allowTakebacks ? 'active' : ''}`}>Off</span>
+                  <label className="toggle">
+                    <input 
+                      type="checkbox" 
+                      id="mobile-takeback-toggle" 
+                      checked={allowTakebacks}
+                      onChange={(e) => setAllowTakebacks(e.target.checked)}
+                    />
+                    <span className="slider round"></span>
+                  </label>
+                  <span className={`toggle-label ${allowTakebacks ? 'active' : ''}`}>On</span>
+                </div>
+              </div>
+            )}
+
             {/* Timer toggle */}
             <div className="option-row" style={{ marginBottom: '15px' }}>
               <label htmlFor="mobile-timer-toggle" style={{ fontWeight: 'bold', fontSize: '16px' }}>Game Timer:</label>
@@ -6137,6 +5988,19 @@ setOpponentDisconnected(false);
                   🤝 Offer Draw
                 </button>
               )}
+              {gameMode === 'online' && (
+                <button 
+                  className="btn" 
+                  onClick={handleTakebackFromModal}
+                  style={{ 
+                    backgroundColor: '#6c757d', 
+                    color: 'white',
+                    fontWeight: 'bold'
+                  }}
+                >
+                  ↶ Request Takeback
+                </button>
+              )}
               <button 
                 className="btn" 
                 onClick={cancelResignDrawModal}
@@ -6191,6 +6055,44 @@ setOpponentDisconnected(false);
         </>
       )}
 
+      {/* Takeback Request Modal */}
+      {showTakebackRequest && (
+        <>
+          <div className="overlay" style={{ display: 'block' }} onClick={() => respondToTakebackRequest(false)} />
+          <div className="notification" style={{ display: 'block' }}>
+            <h2>↶ Takeback Request</h2>
+            <p style={{ whiteSpace: 'pre-line', lineHeight: '1.5', margin: '20px 0' }}>
+              {pendingTakebackFrom === 'white' ? 'White' : 'Black'} player would like to take back {pendingTakebackPlies === 1 ? 'their last move' : `${pendingTakebackPlies} moves, their last move and your reply`}.
+              {'\n\n'}Do you accept?
+            </p>
+            <div className="notification-buttons">
+              <button 
+                className="btn" 
+                onClick={() => respondToTakebackRequest(true)}
+                style={{ 
+                  backgroundColor: '#28a745', 
+                  color: 'white',
+                  fontWeight: 'bold'
+                }}
+              >
+                ✅ Accept Takeback
+              </button>
+              <button 
+                className="btn" 
+                onClick={() => respondToTakebackRequest(false)}
+                style={{ 
+                  backgroundColor: '#dc3545', 
+                  color: 'white',
+                  fontWeight: 'bold'
+                }}
+              >
+                ❌ Decline Takeback
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
       {/* Stats Modal */}
       {showStats && (
         <>
@@ -6310,6 +6212,7 @@ setOpponentDisconnected(false);
               </div>
             )}
             <div className="notification-buttons">
+              <button className="btn" onClick={openMyGames}>My Games</button>
               <button className="btn" onClick={() => setShowStats(false)}>Close</button>
             </div>
           </div>
@@ -6405,7 +6308,7 @@ setOpponentDisconnected(false);
               onMouseLeave={(e) => stopHoldScroll(e)}
               onTouchStart={(e) => startHoldScroll('next', e)}
               onTouchEnd={(e) => stopHoldScroll(e)}
-              disabled={currentReviewMove >= moveHistory.length}
+              disabled={currentReviewMove >= reviewLineEnd}
               title="Next Move"
             >
               ▶
@@ -6413,7 +6316,7 @@ setOpponentDisconnected(false);
             <button 
               className="btn" 
               onClick={lastMove}
-              disabled={currentReviewMove >= moveHistory.length}
+              disabled={currentReviewMove >= reviewLineEnd}
               title="Last Move"
             >
               ⏭
@@ -6428,7 +6331,7 @@ setOpponentDisconnected(false);
             </button>
           </div>
           <div className="move-counter">
-            Move {currentReviewMove} of {moveHistory.length}
+            Move {currentReviewMove} of {reviewLineEnd}
           </div>
         </div>
       )}
@@ -6438,14 +6341,34 @@ setOpponentDisconnected(false);
         <div id="mobile-action-bar">
           <button 
             className="btn" 
-            onClick={isGameStarted && gameState.gameStatus === 'active' ? resignGame : startGame}
+            onClick={isGameStarted && gameState.gameStatus === 'active' ? 
+              (gameMode === 'self-play' ? stopSelfPlayGame : resignGame) : startGame}
             style={{ 
               backgroundColor: !isGameStarted ? '#28a745' : undefined,
               color: !isGameStarted ? 'white' : undefined
             }}
           >
-            {isGameStarted && gameState.gameStatus === 'active' ? 'Resign' : 'Start'}
+            {isGameStarted && gameState.gameStatus === 'active' ? 
+              (gameMode === 'self-play' ? 'Stop' : 'Resign') : 'Start'}
           </button>
+          {canRequestHint && (
+            <button 
+              className="btn" 
+              onClick={requestHint}
+              disabled={hintPending}
+            >
+              Hint
+            </button>
+          )}
+          {canTakeBack && (
+            <button 
+              className="btn" 
+              onClick={undoMove}
+              disabled={moveHistory.length === 0}
+            >
+              Undo
+            </button>
+          )}
           <button 
             className="btn" 
             onClick={isGameStarted && gameState.gameStatus === 'active' ? 
@@ -0,0 +1,7 @@
+// Worker that never answers, for tests that render the app without searching
+export const createSearchWorker = (): Worker =>
+  ({
+    postMessage: () => {},
+    terminate: () => {},
+    onmessage: null
+  } as unknown as Worker);
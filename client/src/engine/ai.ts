@@ -0,0 +1,973 @@
+// CORE AI engines (AI-1 to AI-4)
+// Pure search and evaluation code - no React or DOM, so it can run inside the
+// search worker, on the server and in command line tools.
+
+import {
+  Cell,
+  checkForNexus,
+  checkForVectors,
+  countNodes,
+  isValidMove,
+  playMove,
+  ReadonlyBoard
+} from './rules';
+import { BitboardPosition, generateMoves } from './bitboard';
+import { mcts } from './mcts';
+import { OpeningBook, sampleBookMove } from './openingBook';
+import openingBookData from './openingBook.json';
+import { ZobristKey, hashPosition, keyAfterBitboardMove, keysEqual } from './zobrist';
+
+export type AIEngine = 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4';
+
+export type SearchMove = { row: number; col: number };
+
+export interface SearchProgress {
+  depth: number;
+  bestMove: SearchMove | null;
+  score: number;
+}
+
+// Advanced AI System for Level 4 (2200-2400 Elo equivalent)
+
+// Transposition Table for position caching
+export interface TranspositionEntry {
+  key: ZobristKey;
+  depth: number;
+  score: number;
+  flag: 'exact' | 'lowerbound' | 'upperbound';
+  bestMove: {row: number, col: number} | null;
+  age: number;
+}
+
+const BUCKET_SIZE = 4;
+
+// Fixed-size table of 4-entry buckets indexed by the low bits of the key.
+// A full bucket replaces entries left over from earlier searches first, then the shallowest.
+export class TranspositionTable {
+  private entries: (TranspositionEntry | null)[];
+  private bucketMask: number;
+  private currentAge = 0;
+
+  constructor(bucketBits: number = 15) {
+    this.bucketMask = (1 << bucketBits) - 1;
+    this.entries = new Array((1 << bucketBits) * BUCKET_SIZE).fill(null);
+  }
+
+  get(key: ZobristKey): TranspositionEntry | null {
+    const start = (key.lo & this.bucketMask) * BUCKET_SIZE;
+    for (let i = start; i < start + BUCKET_SIZE; i++) {
+      const entry = this.entries[i];
+      if (entry && keysEqual(entry.key, key)) return entry;
+    }
+    return null;
+  }
+
+  set(key: ZobristKey, entry: TranspositionEntry): void {
+    entry.key = key;
+    entry.age = this.currentAge;
+
+    const start = (key.lo & this.bucketMask) * BUCKET_SIZE;
+    let victim = start;
+    let victimRank = Infinity;
+    for (let i = start; i < start + BUCKET_SIZE; i++) {
+      const existing = this.entries[i];
+      if (!existing) {
+        victim = i;
+        break;
+      }
+      if (keysEqual(existing.key, key)) {
+        // Keep a deeper result from the current search
+        if (existing.age === this.currentAge && existing.depth > entry.depth) return;
+        victim = i;
+        break;
+      }
+      const rank = (existing.age === this.currentAge ? 1000 : 0) + existing.depth;
+      if (rank < victimRank) {
+        victimRank = rank;
+        victim = i;
+      }
+    }
+    this.entries[victim] = entry;
+  }
+
+  // Start a new search - older entries stay usable but are replaced first
+  newSearch(): void {
+    this.currentAge++;
+  }
+
+  clear(): void {
+    this.entries.fill(null);
+    this.currentAge++;
+  }
+}
+
+// Opening book shared by all tiers. Weaker tiers leave the book sooner and
+// sample it more loosely, so their openings vary more.
+export const openingBook = OpeningBook.fromJSON(openingBookData);
+
+const BOOK_VARIETY: Record<AIEngine, { maxPieces: number; temperature: number }> = {
+  'ai-1': { maxPieces: 2, temperature: 3 },
+  'ai-2': { maxPieces: 4, temperature: 2 },
+  'ai-3': { maxPieces: 8, temperature: 1 },
+  'ai-4': { maxPieces: 12, temperature: 0.5 }
+};
+
+// Book move for this tier, or null when out of book
+export const getBookMove = (board: (Cell | null)[][], toMove: 'white' | 'black', engine: AIEngine): SearchMove | null => {
+  const { maxPieces, temperature } = BOOK_VARIETY[engine];
+  if (board.flat().filter(cell => cell !== null).length > maxPieces) return null;
+  const moves = openingBook.lookup(board, toMove);
+  return moves ? sampleBookMove(moves, temperature) : null;
+};
+
+// Advanced position evaluation
+export const evaluatePosition = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  const opponentColor = playerColor === 'white' ? 'black' : 'white';
+  let score = 0;
+  
+  // 1. Material evaluation (nodes and their point values)
+  const playerNodes = countNodes(board, playerColor);
+  const opponentNodes = countNodes(board, opponentColor);
+  score += (playerNodes - opponentNodes) * 100;
+  
+  // 2. Immediate threats (nexus and vector formations)
+  score += evaluateThreats(board, playerColor);
+  
+  // 3. Positional factors
+  score += evaluatePositional(board, playerColor);
+  
+  // 4. Strategic factors
+  score += evaluateStrategic(board, playerColor);
+  
+  // 5. Tactical patterns
+  score += evaluateTactical(board, playerColor);
+  
+  // 6. Chain-building bias: reward longer chains of own color
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const cell = board[row][col];
+      if (cell && cell.color === playerColor) {
+        // Check in all 4 directions for chains
+        const directions = [[1,0],[0,1],[1,1],[1,-1]];
+        for (const [dr,dc] of directions) {
+          let length = 1;
+          let r = row + dr, c = col + dc;
+          while (r >= 0 && r < 8 && c >= 0 && c < 8 && board[r][c]?.color === playerColor) {
+            length++;
+            r += dr; c += dc;
+          }
+          if (length >= 2) score += length * 12; // reward longer chains
+        }
+      }
+    }
+  }
+  
+  return score;
+};
+
+const evaluateThreats = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  let score = 0;
+  const opponentColor = playerColor === 'white' ? 'black' : 'white';
+  
+  for (const { row, col } of generateMoves(board, playerColor)) {
+    // Test move for player
+    const testBoard = board.map(r => [...r]);
+    testBoard[row][col] = { color: playerColor, isNode: false };
+    
+    // Check for vectors
+    const vectors = checkForVectors(testBoard, row, col, playerColor);
+    if (vectors.length > 0) {
+      score += 1000 * vectors.length; // Vector formation bonus
+    }
+    
+    // Check for nexus (with node)
+    testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
+    const nexus = checkForNexus(testBoard, row, col, playerColor);
+    if (nexus) {
+      score += 10000; // Instant win
+    }
+    
+    // Check blocking opponent threats
+    const opponentTestBoard = board.map(r => [...r]);
+    opponentTestBoard[row][col] = { color: opponentColor, isNode: false };
+    const opponentVectors = checkForVectors(opponentTestBoard, row, col, opponentColor);
+    if (opponentVectors.length > 0) {
+      score += 800 * opponentVectors.length; // Block opponent vectors
+    }
+    
+    opponentTestBoard[row][col] = { color: opponentColor, isNode: true, nodeType: 'standard' };
+    const opponentNexus = checkForNexus(opponentTestBoard, row, col, opponentColor);
+    if (opponentNexus) {
+      score += 9000; // Block opponent nexus
+    }
+  }
+  
+  return score;
+};
+
+const evaluatePositional = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  let score = 0;
+  const opponentColor = playerColor === 'white' ? 'black' : 'white';
+  
+  // Center control evaluation
+  const centerSquares = [[3,3], [3,4], [4,3], [4,4]];
+  for (const [row, col] of centerSquares) {
+    const cell = board[row][col];
+    if (cell?.color === playerColor) {
+      score += 50;
+    } else if (cell?.color === opponentColor) {
+      score -= 50;
+    }
+  }
+  
+  // Extended center control
+  const extendedCenter = [[2,2], [2,3], [2,4], [2,5], [3,2], [3,5], [4,2], [4,5], [5,2], [5,3], [5,4], [5,5]];
+  for (const [row, col] of extendedCenter) {
+    const cell = board[row][col];
+    if (cell?.color === playerColor) {
+      score += 20;
+    } else if (cell?.color === opponentColor) {
+      score -= 20;
+    }
+  }
+  
+  // Piece activity and mobility
+  score += evaluateMobility(board, playerColor) - evaluateMobility(board, opponentColor);
+  
+  return score;
+};
+
+const evaluateMobility = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  const mobility = generateMoves(board, playerColor).length;
+  return mobility * 5; // Each possible move is worth 5 points
+};
+
+const evaluateStrategic = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  let score = 0;
+  
+  // Connectivity bonus - pieces supporting each other
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const cell = board[row][col];
+      if (cell?.color === playerColor) {
+        let connections = 0;
+        const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
+        
+        for (const [dr, dc] of directions) {
+          const newRow = row + dr;
+          const newCol = col + dc;
+          if (newRow >= 0 && newRow < 8 && newCol >= 0 && newCol < 8) {
+            const adjCell = board[newRow][newCol];
+            if (adjCell?.color === playerColor) {
+              connections++;
+            }
+          }
+        }
+        
+        score += connections * 15; // Connectivity bonus
+        
+        // Node protection bonus
+        if (cell.isNode) {
+          score += connections * 25; // Extra bonus for protecting nodes
+        }
+      }
+    }
+  }
+  
+  return score;
+};
+
+const evaluateTactical = (board: ReadonlyBoard, playerColor: 'white' | 'black'): number => {
+  let score = 0;
+  
+  // Look for fork opportunities (moves that create multiple threats)
+  for (const { row, col } of generateMoves(board, playerColor)) {
+    const testBoard = board.map(r => [...r]);
+    testBoard[row][col] = { color: playerColor, isNode: false };
+    
+    let threats = 0;
+    
+    // Count potential vectors from this position
+    const vectors = checkForVectors(testBoard, row, col, playerColor);
+    threats += vectors.length;
+    
+    // Check if this move creates multiple line possibilities
+    const directions = [[-1,-1], [-1,0], [-1,1], [0,-1], [0,1], [1,-1], [1,0], [1,1]];
+    for (const [dr, dc] of directions) {
+      let lineLength = 1;
+      
+      // Count in positive direction
+      let r = row + dr, c = col + dc;
+      while (r >= 0 && r < 8 && c >= 0 && c < 8 && testBoard[r][c]?.color === playerColor) {
+        lineLength++;
+        r += dr;
+        c += dc;
+      }
+      
+      // Count in negative direction
+      r = row - dr;
+      c = col - dc;
+      while (r >= 0 && r < 8 && c >= 0 && c < 8 && testBoard[r][c]?.color === playerColor) {
+        lineLength++;
+        r -= dr;
+        c -= dc;
+      }
+      
+      if (lineLength >= 3) {
+        threats++;
+      }
+    }
+    
+    if (threats >= 2) {
+      score += 200 * threats; // Fork bonus
+    }
+  }
+  
+  return score;
+};
+
+// Thrown out of minimax when the deadline passes mid-search
+export const SEARCH_TIMEOUT = new Error('Search timed out');
+
+// Evaluation of the position after each move, for searching the best moves first
+const orderMoves = (position: BitboardPosition, color: 'white' | 'black'): number[] => {
+  const scored = position.legalSquares(color).map(square => {
+    position.make(square);
+    const score = evaluatePosition(position.board, color);
+    position.unmake();
+    return { square, score };
+  });
+  scored.sort((a, b) => b.score - a.score);
+  return scored.map(move => move.square);
+};
+
+// Minimax with Alpha-Beta Pruning. Moves are made and unmade on `position`,
+// which is left as it was unless the search times out.
+export const minimax = (
+  position: BitboardPosition,
+  depth: number, 
+  alpha: number, 
+  beta: number, 
+  isMaximizing: boolean, 
+  playerColor: 'white' | 'black',
+  transTable: TranspositionTable,
+  positionKey?: ZobristKey,
+  deadline: number = Infinity
+): {score: number, bestMove: {row: number, col: number} | null} => {
+  if (Date.now() > deadline) throw SEARCH_TIMEOUT;
+  const currentColor = position.toMove;
+  // Root call hashes the board, children get their key incrementally
+  const key = positionKey || hashPosition(position.board, currentColor, playerColor);
+  const ttEntry = transTable.get(key);
+  
+  if (ttEntry && ttEntry.depth >= depth) {
+    if (ttEntry.flag === 'exact') {
+      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
+    } else if (ttEntry.flag === 'lowerbound' && ttEntry.score >= beta) {
+      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
+    } else if (ttEntry.flag === 'upperbound' && ttEntry.score <= alpha) {
+      return {score: ttEntry.score, bestMove: ttEntry.bestMove};
+    }
+  }
+  
+  // Base case -> use quiescence search to resolve tactical volatility
+  if (depth === 0) {
+    const q = quiescence(position, alpha, beta, playerColor, isMaximizing, 0, 4);
+    return {score: q.score, bestMove: null};
+  }
+  
+  if (!position.hasLegalMoves(currentColor)) {
+    const score = evaluatePosition(position.board, playerColor);
+    return {score, bestMove: null};
+  }
+  
+  // Move ordering - search the moves that evaluate best for the side to move first
+  const moves = orderMoves(position, currentColor);
+  
+  let bestMove: {row: number, col: number} | null = null;
+  let bestScore = isMaximizing ? -Infinity : Infinity;
+  
+  for (const square of moves) {
+    const childKey = keyAfterBitboardMove(key, position.make(square));
+    const result = minimax(position, depth - 1, alpha, beta, !isMaximizing, playerColor, transTable, childKey, deadline);
+    position.unmake();
+    
+    if (isMaximizing) {
+      if (result.score > bestScore) {
+        bestScore = result.score;
+        bestMove = { row: square >> 3, col: square & 7 };
+      }
+      alpha = Math.max(alpha, result.score);
+    } else {
+      if (result.score < bestScore) {
+        bestScore = result.score;
+        bestMove = { row: square >> 3, col: square & 7 };
+      }
+      beta = Math.min(beta, result.score);
+    }
+    
+    if (beta <= alpha) {
+      break; // Alpha-beta pruning
+    }
+  }
+  
+  // Store in transposition table
+  const flag = bestScore <= alpha ? 'upperbound' : bestScore >= beta ? 'lowerbound' : 'exact';
+  transTable.set(key, {
+    key,
+    depth,
+    score: bestScore,
+    flag,
+    bestMove,
+    age: 0
+  });
+  
+  return {score: bestScore, bestMove};
+};
+
+// Global transposition table instance
+export const globalTransTable = new TranspositionTable();
+
+// --- Quiescence Search & Tactical Move Generation for AI-4 ---
+function quiescence(
+  position: BitboardPosition,
+  alpha: number,
+  beta: number,
+  evalColor: 'white' | 'black',
+  isMaximizing: boolean,
+  qDepth: number,
+  maxQDepth: number
+): { score: number } {
+  // Stand-pat evaluation
+  const standPat = evaluatePosition(position.board, evalColor);
+
+  if (isMaximizing) {
+    if (standPat >= beta) return { score: standPat };
+    if (standPat > alpha) alpha = standPat;
+  } else {
+    if (standPat <= alpha) return { score: standPat };
+    if (standPat < beta) beta = standPat;
+  }
+
+  if (qDepth >= maxQDepth) return { score: standPat };
+
+  const tacticalMoves = getTacticalMoves(position.board, position.toMove);
+  if (tacticalMoves.length === 0) return { score: standPat };
+
+  let best = standPat;
+  for (const move of tacticalMoves) {
+    position.make(move.row * 8 + move.col);
+    const child = quiescence(position, alpha, beta, evalColor, !isMaximizing, qDepth + 1, maxQDepth);
+    position.unmake();
+
+    if (isMaximizing) {
+      if (child.score > best) best = child.score;
+      if (best > alpha) alpha = best;
+    } else {
+      if (child.score < best) best = child.score;
+      if (best < beta) beta = best;
+    }
+    if (beta <= alpha) break;
+  }
+  return { score: best };
+}
+
+function getTacticalMoves(
+  board: ReadonlyBoard,
+  playerColor: 'white' | 'black'
+): { row: number; col: number }[] {
+  const opponentColor: 'white' | 'black' = playerColor === 'white' ? 'black' : 'white';
+  const all = generateMoves(board, playerColor);
+  const result: { row: number; col: number }[] = [];
+
+  // Precompute opponent immediate Igo threats to allow blocking
+  const opponentThreatSquares = new Set<string>();
+  for (const { row: r, col: c } of generateMoves(board, opponentColor)) {
+    const oppBoard = board.map(row => [...row]);
+    oppBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
+    if (checkForNexus(oppBoard, r, c, opponentColor)) {
+      opponentThreatSquares.add(`${r},${c}`);
+    }
+  }
+
+  for (const move of all) {
+    const testBoard = board.map(r => [...r]);
+    // 1) Creating unbroken line of 4 (vectors) is tactical
+    testBoard[move.row][move.col] = { color: playerColor, isNode: false };
+    const vecs = checkForVectors(testBoard, move.row, move.col, playerColor);
+    if (vecs.length > 0) {
+      result.push(move);
+      continue;
+    }
+
+    // 2) Immediate Igo (nexus) by making this cell a node
+    testBoard[move.row][move.col] = { color: playerColor, isNode: true, nodeType: 'standard' };
+    if (checkForNexus(testBoard, move.row, move.col, playerColor)) {
+      result.push(move);
+      continue;
+    }
+
+    // 3) Blocks opponent immediate Igo (if opponent could win by playing here)
+    if (opponentThreatSquares.has(`${move.row},${move.col}`)) {
+      result.push(move);
+      continue;
+    }
+  }
+  return result;
+}
+
+// ===== TACTICAL PATTERN DETECTION FOR AI-3 =====
+
+// Helper function to check if a cell is "empty" (no node present, even if ion exists)
+const isEmptyCell = (board: (Cell | null)[][], row: number, col: number): boolean => {
+  return !board[row][col] || !board[row][col]?.isNode;
+};
+
+// CRITICAL: Detect immediate winning moves for the AI (3 links in a row with empty space)
+export const detectImmediateWin = (board: (Cell | null)[][], playerColor: 'white' | 'black'): {row: number, col: number}[] => {
+  const winningMoves: {row: number, col: number}[] = [];
+  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]]; // All 4 main directions
+  
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      for (const [dr, dc] of directions) {
+        // Check for pattern: Link-Link-Empty-Link or Link-Empty-Link-Link or Empty-Link-Link-Link
+        const positions = [];
+        for (let i = 0; i < 4; i++) {
+          const r = row + i * dr;
+          const c = col + i * dc;
+          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
+            positions.push({row: r, col: c, cell: board[r][c]});
+          }
+        }
+        
+        if (positions.length === 4) {
+          const nodes = positions.filter(p => p.cell?.color === playerColor && p.cell?.isNode);
+          const empties = positions.filter(p => isEmptyCell(board, p.row, p.col));
+          
+          // Check if we have exactly 3 nodes and 1 empty in the line
+          if (nodes.length === 3 && empties.length === 1) {
+            // Verify this empty position can create a nexus (4 in a row)
+            const emptyPos = empties[0];
+            if (isValidMove(board, emptyPos.row, emptyPos.col, playerColor)) {
+              // Test if placing a node here would create a nexus
+              const testBoard = board.map(r => [...r]);
+              testBoard[emptyPos.row][emptyPos.col] = { color: playerColor, isNode: true, nodeType: 'standard' };
+              const nexus = checkForNexus(testBoard, emptyPos.row, emptyPos.col, playerColor);
+              if (nexus) {
+                winningMoves.push({row: emptyPos.row, col: emptyPos.col});
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+  
+  return winningMoves;
+};
+
+// 1. THREE NODE THREAT: Detect if opponent has 3 connected nodes with 1 empty gap
+export const detectThreeNodeThreat = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
+  const threats: {row: number, col: number}[] = [];
+  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]]; // All 4 main directions
+  
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      for (const [dr, dc] of directions) {
+        // Check for pattern: Node-Node-Empty-Node or Node-Empty-Node-Node or Empty-Node-Node-Node
+        const positions = [];
+        for (let i = 0; i < 4; i++) {
+          const r = row + i * dr;
+          const c = col + i * dc;
+          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
+            positions.push({row: r, col: c, cell: board[r][c]});
+          }
+        }
+        
+        if (positions.length === 4) {
+          const nodes = positions.filter(p => p.cell?.color === opponentColor && p.cell?.isNode);
+          const empties = positions.filter(p => isEmptyCell(board, p.row, p.col));
+          
+          // Check if we have exactly 3 nodes and 1 empty in the line
+          if (nodes.length === 3 && empties.length === 1) {
+            threats.push({row: empties[0].row, col: empties[0].col});
+          }
+        }
+      }
+    }
+  }
+  
+  return threats;
+};
+
+// 2. NEXUS FORK: Detect if opponent can create double threat by placing node in center
+export const detectNexusFork = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
+  const forkThreats: {row: number, col: number}[] = [];
+  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]];
+  
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (!isEmptyCell(board, row, col)) continue;
+      
+      for (const [dr, dc] of directions) {
+        // Check for pattern: Node-Empty-Node-Empty-[THIS CELL]-Empty-Node
+        // This would create two threats if opponent places node here
+        
+        let nodesOnLeft = 0;
+        let nodesOnRight = 0;
+        
+        // Check left side (2 positions)
+        for (let i = 1; i <= 2; i++) {
+          const r = row - i * dr;
+          const c = col - i * dc;
+          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
+            const cell = board[r][c];
+            if (cell?.color === opponentColor && cell?.isNode) {
+              nodesOnLeft++;
+            }
+          }
+        }
+        
+        // Check right side (2 positions)
+        for (let i = 1; i <= 2; i++) {
+          const r = row + i * dr;
+          const c = col + i * dc;
+          if (r >= 0 && r < 8 && c >= 0 && c < 8) {
+            const cell = board[r][c];
+            if (cell?.color === opponentColor && cell?.isNode) {
+              nodesOnRight++;
+            }
+          }
+        }
+        
+        // If placing a node here would connect with nodes on both sides
+        // and create 3+ connected nodes, it's a fork threat
+        if (nodesOnLeft >= 1 && nodesOnRight >= 1 && (nodesOnLeft + nodesOnRight >= 2)) {
+          forkThreats.push({row, col});
+        }
+      }
+    }
+  }
+  
+  return forkThreats;
+};
+
+// 2b. VECTOR-TO-FORK THREAT: Detect if opponent can create fork by first forming vector
+export const detectVectorToForkThreat = (board: (Cell | null)[][], opponentColor: 'white' | 'black'): {row: number, col: number}[] => {
+  const vectorToForkThreats: {row: number, col: number}[] = [];
+  const directions = [[-1, 0], [0, 1], [1, 1], [1, 0]];
+  
+  // For each empty cell, check if opponent placing there creates a vector that leads to fork
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (!isEmptyCell(board, row, col)) continue;
+      
+      // Simulate opponent placing a piece here
+      const testBoard = board.map(r => [...r]);
+      testBoard[row][col] = { color: opponentColor, isNode: false };
+      
+      // Check if this creates any vectors
+      const vectors = checkForVectors(testBoard, row, col, opponentColor);
+      
+      if (vectors.length > 0) {
+        // Simulate the vector formation (piece becomes node, others removed)
+        const postVectorBoard = testBoard.map(r => [...r]);
+        
+        // Process each vector
+        for (const vector of vectors) {
+          // The placed piece becomes a node
+          postVectorBoard[row][col] = { color: opponentColor, isNode: true, nodeType: 'standard' };
+          
+          // Remove other pieces in the vector (except the new node)
+          for (const pos of vector) {
+            if (pos.row !== row || pos.col !== col) {
+              postVectorBoard[pos.row][pos.col] = null;
+            }
+          }
+        }
+        
+        // Now check if this results in a nexus fork situation
+        // Look for 2+ connected nodes with empty cells on both ends
+        for (const [dr, dc] of directions) {
+          const line = [];
+          
+          // Build line in this direction starting from the new node
+          for (let i = -3; i <= 3; i++) {
+            const r = row + i * dr;
+            const c = col + i * dc;
+            if (r >= 0 && r < 8 && c >= 0 && c < 8) {
+              line.push({
+                row: r, 
+                col: c, 
+                cell: postVectorBoard[r][c],
+                isEmpty: isEmptyCell(postVectorBoard, r, c)
+              });
+            }
+          }
+          
+          // Look for patterns like: Empty-Node-Node-Empty or Empty-Node-Node-Node-Empty
+          for (let start = 0; start < line.length - 3; start++) {
+            const segment = line.slice(start, start + 4);
+            const nodes = segment.filter(p => p.cell?.color === opponentColor && p.cell?.isNode);
+            const empties = segment.filter(p => p.isEmpty);
+            
+            // If we have 2+ nodes with empties on both ends, it's a fork threat
+            if (nodes.length >= 2 && segment[0].isEmpty && segment[segment.length - 1].isEmpty) {
+              vectorToForkThreats.push({row, col});
+              break;
+            }
+          }
+        }
+      }
+    }
+  }
+  
+  return vectorToForkThreats;
+};
+
+// 3. VECTOR TRAP: Check if forming vector removes defending ions
+const detectVectorTrap = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black'): boolean => {
+  const opponentColor = playerColor === 'white' ? 'black' : 'white';
+  
+  // Simulate placing the piece and forming vectors
+  const testBoard = board.map(r => [...r]);
+  testBoard[row][col] = { color: playerColor, isNode: false };
+  
+  const vectors = checkForVectors(testBoard, row, col, playerColor);
+  
+  if (vectors.length === 0) return false; // No vector formed, no trap
+  
+  // For each vector, check what ions would be removed
+  for (const vector of vectors) {
+    for (const pos of vector) {
+      if (pos.row === row && pos.col === col) continue; // Skip the new piece
+      
+      // This ion would be removed - check if it was defending anything critical
+      const ionRow = pos.row;
+      const ionCol = pos.col;
+      
+      // Temporarily remove this ion and check for new threats
+      const boardWithoutIon = testBoard.map(r => [...r]);
+      boardWithoutIon[ionRow][ionCol] = null;
+      
+      // Check if removing this ion exposes us to Three Node Threat
+      const threeNodeThreats = detectThreeNodeThreat(boardWithoutIon, opponentColor);
+      if (threeNodeThreats.some(threat => threat.row === ionRow && threat.col === ionCol)) {
+        return true; // This is a trap!
+      }
+      
+      // Check if removing this ion exposes us to Nexus Fork
+      const nexusForksExposed = detectNexusFork(boardWithoutIon, opponentColor);
+      if (nexusForksExposed.some(fork => fork.row === ionRow && fork.col === ionCol)) {
+        return true; // This is a trap!
+      }
+    }
+  }
+  
+  return false;
+};
+
+// Simple AI logic
+// AI Helper Functions
+export const evaluateMove = (board: (Cell | null)[][], row: number, col: number, playerColor: 'white' | 'black', difficulty: 'ai-1' | 'ai-2' | 'ai-3' | 'ai-4'): number => {
+  // For AI-4, use the advanced evaluation
+  if (difficulty === 'ai-4') {
+    const testBoard = playMove(board, row, col, playerColor);
+    return evaluatePosition(testBoard, playerColor);
+  }
+  
+  // Original evaluation for AI-1, AI-2, AI-3
+  let score = 0;
+  const opponentColor = playerColor === 'white' ? 'black' : 'white';
+  
+  // Create a copy of the board with the move played
+  const testBoard = board.map(r => [...r]);
+  
+  // ABSOLUTE PRIORITY 0: Immediate Nexus Win (check if this move wins the game)
+  testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
+  const immediateNexus = checkForNexus(testBoard, row, col, playerColor);
+  if (immediateNexus) {
+    score += 100000; // MASSIVE BONUS - ALWAYS TAKE WINNING MOVES!
+  }
+  
+  // Reset the test board for other checks
+  testBoard[row][col] = { color: playerColor, isNode: false };
+  
+  // PRIORITY 1: Vector Formation (immediate win condition)
+  const vectors = checkForVectors(testBoard, row, col, playerColor);
+  if (vectors.length > 0) {
+    score += 1000 * vectors.length; // Massive bonus for forming vectors
+  }
+  
+  // ENHANCED PRIORITY 2: Advanced Threat Detection for AI-3
+  if (difficulty === 'ai-3') {
+    // Check for Three Node Threats (MUST BLOCK)
+    const threeNodeThreats = detectThreeNodeThreat(board, opponentColor);
+    if (threeNodeThreats.some(threat => threat.row === row && threat.col === col)) {
+      score += 15000; // CRITICAL: Must block three node threat immediately
+    }
+    
+    // Check for Nexus Forks (MUST BLOCK)
+    const nexusForks = detectNexusFork(board, opponentColor);
+    if (nexusForks.some(fork => fork.row === row && fork.col === col)) {
+      score += 12000; // CRITICAL: Must block nexus fork
+    }
+    
+    // Check for Vector-to-Fork Threats (MUST BLOCK) - NEW!
+    const vectorToForkThreats = detectVectorToForkThreat(board, opponentColor);
+    if (vectorToForkThreats.some(threat => threat.row === row && threat.col === col)) {
+      score += 13000; // CRITICAL: Must block vector-to-fork setup
+    }
+    
+    // Check for Vector Trap (MUST AVOID)
+    if (detectVectorTrap(board, row, col, playerColor)) {
+      score -= 20000; // CRITICAL: Avoid vector traps at all costs
+    }
+  }
+  
+  // PRIORITY 2: Block Opponent Threats (prevent opponent from winning)
+  for (const { row: r, col: c } of generateMoves(board, opponentColor)) {
+    const opponentTestBoard = board.map(row => [...row]);
+    opponentTestBoard[r][c] = { color: opponentColor, isNode: false };
+    const opponentVectors = checkForVectors(opponentTestBoard, r, c, opponentColor);
+    
+    // Check for nexus threat (opponent can win immediately)
+    opponentTestBoard[r][c] = { color: opponentColor, isNode: true, nodeType: 'standard' };
+    const opponentNexus = checkForNexus(opponentTestBoard, r, c, opponentColor);
+    
+    if ((opponentVectors.length > 0 || opponentNexus) && r === row && c === col) {
+      score += opponentNexus ? 9000 : 800; // Massive bonus for blocking nexus, high for vectors
+    }
+  }
+  
+  // PRIORITY 3: Check for Nexus Formation (game winner)
+  testBoard[row][col] = { color: playerColor, isNode: true, nodeType: 'standard' };
+  const nexus = checkForNexus(testBoard, row, col, playerColor);
+  if (nexus) {
+    score += 10000; // Instant win
+  }
+  
+  // PRIORITY 4: Node Building (scoring opportunities)
+  if (vectors.length > 0) {
+    const nodeValue = vectors.length === 1 ? 1 : vectors.length === 2 ? 2 : vectors.length === 3 ? 3 : 4;
+    score += nodeValue * 100; // Bonus based on node type
+  }
+  
+  // PRIORITY 5: Center Control (general good play)
+  const centerDistance = Math.abs(row - 3.5) + Math.abs(col - 3.5);
+  score += (7 - centerDistance) * 10; // Prefer center positions
+  
+  // PRIORITY 6: Support Structures (set up future vectors)
+  let supportCount = 0;
+  const directions = [[-1, 0], [-1, 1], [0, 1], [1, 1], [1, 0], [1, -1], [0, -1], [-1, -1]];
+  for (const [dr, dc] of directions) {
+    const adjRow = row + dr;
+    const adjCol = col + dc;
+    if (adjRow >= 0 && adjRow < 8 && adjCol >= 0 && adjCol < 8) {
+      if (board[adjRow][adjCol] && board[adjRow][adjCol]!.color === playerColor) {
+        supportCount++;
+      }
+    }
+  }
+  score += supportCount * 20; // Bonus for connecting with own pieces
+  
+  // Level 1 specific: Add some small evaluation noise to make it less perfect
+  if (difficulty === 'ai-1') {
+    score += Math.random() * 40 - 20; // ±20 point variation
+  }
+  
+  return score;
+};
+
+// Move selection for AI-1 to AI-3 (AI-4 searches with iterativeDeepeningMinimax)
+export const getAIMove = (
+  board: (Cell | null)[][],
+  difficulty: Exclude<AIEngine, 'ai-4'>,
+  playerColor: 'white' | 'black',
+  // Search time for AI-3; AI-1 and AI-2 don't search
+  maxTimeMs: number = 1500
+): { row: number; col: number } | null => {
+  const bookMove = getBookMove(board, playerColor, difficulty);
+  if (bookMove) return bookMove;
+
+  const validMoves: { row: number; col: number; score: number }[] = [];
+  for (const { row, col } of generateMoves(board, playerColor)) {
+    const score = evaluateMove(board, row, col, playerColor, difficulty);
+    validMoves.push({ row, col, score });
+  }
+  if (validMoves.length === 0) return null;
+  if (difficulty === 'ai-1') {
+    validMoves.sort((a, b) => b.score - a.score);
+    const topMoves = validMoves.slice(0, Math.min(3, validMoves.length));
+    return topMoves[Math.floor(Math.random() * topMoves.length)];
+  } else if (difficulty === 'ai-2') {
+    validMoves.sort((a, b) => b.score - a.score);
+    const criticalMoves = validMoves.filter(move => move.score >= 800);
+    if (criticalMoves.length > 0) {
+      return criticalMoves[0];
+    }
+    const topMoves = validMoves.slice(0, Math.min(5, validMoves.length));
+    return topMoves[Math.floor(Math.random() * topMoves.length)];
+  } else { // AI-3 uses Monte Carlo tree search
+    // Take a win or block an Igo threat straight away
+    validMoves.sort((a, b) => b.score - a.score);
+    if (validMoves[0].score >= 9000) {
+      return validMoves[0];
+    }
+    return mcts(board, playerColor, { timeMs: maxTimeMs, rollout: 'tactical' });
+  }
+};
+
+// Iterative deepening, one step per completed depth so callers can report
+// progress or stop between depths
+export function* iterativeDeepening(
+  board: (Cell | null)[][],
+  maxTimeMs: number,
+  playerColor: 'white' | 'black',
+  transTable: TranspositionTable,
+  maxDepth: number = 3
+): Generator<SearchProgress, SearchMove | null, void> {
+  const bookMove = getBookMove(board, playerColor, 'ai-4');
+  if (bookMove) return bookMove;
+
+  transTable.newSearch();
+  const start = Date.now();
+  const deadline = start + maxTimeMs;
+  let bestMove: SearchMove | null = null;
+  let depth = 1;
+  while (depth <= maxDepth) { // Only go up to maxDepth
+    // The next depth takes several times longer than the last one - don't start what can't finish
+    if (depth > 1 && Date.now() - start > maxTimeMs / 2) break;
+    let result;
+    try {
+      // Depth 1 always completes so there is a move to play. A timed out
+      // search leaves its moves made, so each depth starts from a fresh position.
+      result = minimax(BitboardPosition.fromBoard(board, playerColor), depth, -Infinity, Infinity, true, playerColor, transTable, undefined, depth > 1 ? deadline : Infinity);
+    } catch (error) {
+      if (error === SEARCH_TIMEOUT) break;
+      throw error;
+    }
+    if (result.bestMove) {
+      bestMove = result.bestMove;
+    }
+    yield { depth, bestMove, score: result.score };
+    depth++;
+  }
+  return bestMove;
+}
+
+export function iterativeDeepeningMinimax(
+  board: (Cell | null)[][],
+  maxTimeMs: number,
+  playerColor: 'white' | 'black',
+  transTable: TranspositionTable,
+  maxDepth: number = 3 // Add a default max depth cap
+): SearchMove | null {
+  const search = iterativeDeepening(board, maxTimeMs, playerColor, transTable, maxDepth);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
@@ -0,0 +1,25 @@
+import { TranspositionTable } from './ai';
+import { analyzePosition } from './analysis';
+import { decodePosition } from './positionNotation';
+import { Cell } from './rules';
+
+const analyze = (text: string) => {
+  const { position } = decodePosition(text);
+  const search = analyzePosition(position.board as (Cell | null)[][], position.toMove, { maxTimeMs: 5000, maxDepth: 1, lines: 3 }, new TranspositionTable());
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+};
+
+test('a winning Igo tops the candidate list, scored for White', () => {
+  const winning = analyze('WWW5/3w4/3w4/3w4/8/8/8/8 w 1');
+  expect(winning.depth).toBe(1);
+  expect(winning.candidates).toHaveLength(3);
+  expect(winning.candidates[0]).toMatchObject({ row: 0, col: 3, score: 100000, pv: [{ row: 0, col: 3 }] });
+  expect(winning.candidates[1].score).toBeLessThan(100000);
+  expect(winning.evaluation).toBeGreaterThan(0);
+});
+
+test('a finished position has nothing to search', () => {
+  expect(analyze('WWWW4/8/8/8/8/8/8/8 b 1')).toMatchObject({ depth: 0, candidates: [] });
+});
@@ -0,0 +1,124 @@
+// Multi-line analysis for review mode: the best few moves in a position, each
+// with its score and principal variation, deepened a ply at a time like
+// iterativeDeepening
+
+import { BOARD_SIZE, Cell, Color, Square, checkForNexus } from './rules';
+import { BitboardPosition, generateMoves } from './bitboard';
+import { SEARCH_TIMEOUT, TranspositionTable, evaluateMove, evaluatePosition, minimax } from './ai';
+import { ZobristKey, hashPosition, keyAfterBitboardMove } from './zobrist';
+
+export interface CandidateLine extends Square {
+  // From White's point of view, like PositionAnalysis.evaluation
+  score: number;
+  // Principal variation, starting with this move
+  pv: Square[];
+}
+
+export interface PositionAnalysis {
+  // Static evaluation (evaluatePosition) from White's point of view
+  evaluation: number;
+  // Deepest completed search, 0 when there is nothing to search
+  depth: number;
+  // Best first
+  candidates: CandidateLine[];
+}
+
+export interface AnalysisOptions {
+  maxTimeMs: number;
+  maxDepth: number;
+  // Number of candidate moves to score exactly
+  lines: number;
+}
+
+// Score of a move that makes an Igo
+export const IGO_SCORE = 100000;
+
+const hasIgo = (board: (Cell | null)[][]): boolean => {
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const cell = board[row][col];
+      if (cell && cell.isNode && cell.color && checkForNexus(board, row, col, cell.color)) return true;
+    }
+  }
+  return false;
+};
+
+// Follow the best moves the search left in the table, leaving the position as it was
+const principalVariation = (
+  position: BitboardPosition,
+  key: ZobristKey,
+  transTable: TranspositionTable,
+  maxLength: number
+): Square[] => {
+  const pv: Square[] = [];
+  while (pv.length < maxLength) {
+    const entry = transTable.get(key);
+    const move = entry && entry.bestMove;
+    if (!move || !position.isLegal(move.row * 8 + move.col)) break;
+    const color = position.toMove;
+    const made = position.make(move.row * 8 + move.col);
+    pv.push({ row: move.row, col: move.col });
+    if (checkForNexus(position.board, move.row, move.col, color)) break;
+    key = keyAfterBitboardMove(key, made);
+  }
+  pv.forEach(() => position.unmake());
+  return pv;
+};
+
+export function* analyzePosition(
+  board: (Cell | null)[][],
+  toMove: Color,
+  { maxTimeMs, maxDepth, lines }: AnalysisOptions,
+  transTable: TranspositionTable
+): Generator<PositionAnalysis, PositionAnalysis, void> {
+  const evaluation = evaluatePosition(board, 'white');
+  let analysis: PositionAnalysis = { evaluation, depth: 0, candidates: [] };
+  let moves = generateMoves(board, toMove);
+  if (moves.length === 0 || hasIgo(board)) return analysis;
+
+  // Scores come out for the side to move; candidates are reported for White
+  const sign = toMove === 'white' ? 1 : -1;
+  const rootKey = hashPosition(board, toMove, toMove);
+  moves.sort((a, b) => evaluateMove(board, b.row, b.col, toMove, 'ai-4') - evaluateMove(board, a.row, a.col, toMove, 'ai-4'));
+
+  transTable.newSearch();
+  const start = Date.now();
+  const deadline = start + maxTimeMs;
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    if (depth > 1 && Date.now() - start > maxTimeMs / 2) break;
+    const scored: { move: Square; score: number; pv: Square[] }[] = [];
+    // A timed out search leaves its moves made, so each depth starts afresh
+    const position = BitboardPosition.fromBoard(board, toMove);
+    try {
+      for (const move of moves) {
+        const childKey = keyAfterBitboardMove(rootKey, position.make(move.row * 8 + move.col));
+        if (checkForNexus(position.board, move.row, move.col, toMove)) {
+          position.unmake();
+          scored.push({ move, score: IGO_SCORE, pv: [move] });
+          continue;
+        }
+        // Only the best `lines` moves need exact scores, the rest can fail low
+        const best = scored.map(line => line.score).sort((a, b) => b - a);
+        const alpha = best.length >= lines ? best[lines - 1] : -Infinity;
+        const result = minimax(position, depth - 1, alpha, Infinity, false, toMove, transTable, childKey, depth > 1 ? deadline : Infinity);
+        const pv = [move, ...principalVariation(position, childKey, transTable, depth - 1)];
+        position.unmake();
+        scored.push({ move, score: result.score, pv });
+      }
+    } catch (error) {
+      if (error === SEARCH_TIMEOUT) break;
+      throw error;
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    // Search the best moves first next time
+    moves = scored.map(line => line.move);
+    analysis = {
+      evaluation,
+      depth,
+      candidates: scored.slice(0, lines).map(({ move, score, pv }) => ({ row: move.row, col: move.col, score: score * sign, pv }))
+    };
+    yield analysis;
+  }
+  return analysis;
+}
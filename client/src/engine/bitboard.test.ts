@@ -0,0 +1,50 @@
+import { BitboardPosition, maskToSquares } from './bitboard';
+import { Position, applyMove, createInitialPosition, getAllValidMoves } from './rules';
+
+// Small deterministic generator so failures can be replayed
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+test('bitboard agrees with the rules module over random games', () => {
+  const random = createRandom(7);
+
+  for (let game = 0; game < 20; game++) {
+    let position: Position = createInitialPosition();
+    const bitboard = new BitboardPosition();
+    const boards = [bitboard.toBoard()];
+
+    while (true) {
+      const expected = getAllValidMoves(position.board, position.toMove);
+      expect(bitboard.legalMoves()).toEqual(expected);
+      if (expected.length === 0) break;
+
+      const { row, col } = expected[Math.floor(random() * expected.length)];
+      const result = applyMove(position, row, col);
+      const move = bitboard.make(row * 8 + col);
+
+      expect(move.vectors).toBe(result.vectors);
+      expect(move.yugoType).toBe(result.yugoType);
+      expect(maskToSquares(move.removed)).toEqual(
+        [...result.removedCells].sort((a, b) => a.row * 8 + a.col - (b.row * 8 + b.col))
+      );
+      expect(move.igo).toBe(!!result.igoLine);
+      expect(bitboard.toBoard()).toEqual(result.position.board);
+      expect(bitboard.board).toEqual(result.position.board);
+      expect(bitboard.getScores()).toEqual(result.scores);
+
+      position = result.position;
+      boards.push(bitboard.toBoard());
+      if (result.igoLine) break;
+    }
+
+    // Unmaking every move walks back through the same boards
+    while (boards.length > 1) {
+      boards.pop();
+      bitboard.unmake();
+      expect(bitboard.toBoard()).toEqual(boards[boards.length - 1]);
+      expect(bitboard.board).toEqual(boards[boards.length - 1]);
+    }
+  }
+});
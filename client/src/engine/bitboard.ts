@@ -0,0 +1,339 @@
+// Bitboard position for engine search
+// Squares are numbered row * 8 + col. A set of squares is a 64-bit mask held as
+// two 32-bit halves: lo = squares 0-31 (rows 0-3), hi = squares 32-63 (rows 4-7).
+// Gives the same answers as rules.ts, with make/unmake instead of board copies.
+// A Cell array copy of the position is kept in step for evaluation code.
+
+import { BOARD_SIZE, Board, Cell, Color, ReadonlyBoard, Square, YugoType, createEmptyBoard, yugoTypeForVectors, yugoValue } from './rules';
+
+export type Mask = [number, number];
+
+const SQUARES = BOARD_SIZE * BOARD_SIZE;
+const ALL = -1;
+const NOT_COL0 = 0xfefefefe | 0;
+const NOT_COL7 = 0x7f7f7f7f;
+
+// The 4 line directions; the opposite direction is the negation
+const LINE_DIRECTIONS: [number, number][] = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+const hasBit = (lo: number, hi: number, square: number): boolean =>
+  square < 32 ? (lo & (1 << square)) !== 0 : (hi & (1 << (square - 32))) !== 0;
+
+// Move every square one step in direction (dr, dc), dropping squares that leave the board
+const step = (lo: number, hi: number, dr: number, dc: number): Mask => {
+  if (dc === 1) {
+    lo &= NOT_COL7;
+    hi &= NOT_COL7;
+  } else if (dc === -1) {
+    lo &= NOT_COL0;
+    hi &= NOT_COL0;
+  }
+  const n = dr * 8 + dc;
+  if (n > 0) return [lo << n, (hi << n) | (lo >>> (32 - n))];
+  const m = -n;
+  return [(lo >>> m) | (hi << (32 - m)), hi >>> m];
+};
+
+// Squares whose next 1..4 neighbours in direction (dr, dc) all belong to `own`
+const runMasks = (lo: number, hi: number, dr: number, dc: number): Mask[] => {
+  const first = step(lo, hi, -dr, -dc);
+  const runs: Mask[] = [[ALL, ALL], first];
+  for (let k = 2; k <= 4; k++) {
+    const [plo, phi] = step(runs[k - 1][0], runs[k - 1][1], -dr, -dc);
+    runs.push([first[0] & plo, first[1] & phi]);
+  }
+  return runs;
+};
+
+// Empty or not, squares where `own` would end up in a line longer than 4
+const tooLongMask = (lo: number, hi: number): Mask => {
+  let outLo = 0;
+  let outHi = 0;
+  for (const [dr, dc] of LINE_DIRECTIONS) {
+    const forward = runMasks(lo, hi, dr, dc);
+    const backward = runMasks(lo, hi, -dr, -dc);
+    for (let i = 0; i <= 4; i++) {
+      outLo |= forward[i][0] & backward[4 - i][0];
+      outHi |= forward[i][1] & backward[4 - i][1];
+    }
+  }
+  return [outLo, outHi];
+};
+
+// Neighbour square in each of the 8 directions, or -1 off the board
+const NEIGHBOURS: Int8Array[] = [];
+LINE_DIRECTIONS.forEach(([dr, dc]) => {
+  [1, -1].forEach(sign => {
+    const table = new Int8Array(SQUARES);
+    for (let square = 0; square < SQUARES; square++) {
+      const row = (square >> 3) + dr * sign;
+      const col = (square & 7) + dc * sign;
+      table[square] = row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE ? row * 8 + col : -1;
+    }
+    NEIGHBOURS.push(table);
+  });
+});
+
+export const maskToIndexes = ([lo, hi]: Mask): number[] => {
+  const squares: number[] = [];
+  for (let square = 0; square < SQUARES; square++) {
+    if (hasBit(lo, hi, square)) squares.push(square);
+  }
+  return squares;
+};
+
+export const maskToSquares = ([lo, hi]: Mask): Square[] => {
+  const squares: Square[] = [];
+  for (let square = 0; square < SQUARES; square++) {
+    if (hasBit(lo, hi, square)) squares.push({ row: square >> 3, col: square & 7 });
+  }
+  return squares;
+};
+
+export interface BitboardMove {
+  square: number;
+  player: Color;
+  vectors: number;
+  yugoType: YugoType | null;
+  removed: Mask;
+  igo: boolean;
+}
+
+export class BitboardPosition {
+  toMove: Color;
+  // Every piece of each color (Migos and Yugos) and every Yugo of either color
+  private whiteLo = 0;
+  private whiteHi = 0;
+  private blackLo = 0;
+  private blackHi = 0;
+  private yugoLo = 0;
+  private yugoHi = 0;
+  // Yugo value (1-4) per square, 0 when there is no Yugo
+  private yugoValues = new Uint8Array(SQUARES);
+  private scores = { white: 0, black: 0 };
+  private history: BitboardMove[] = [];
+  private cells: Board = createEmptyBoard();
+
+  constructor(toMove: Color = 'white') {
+    this.toMove = toMove;
+  }
+
+  static fromBoard(board: ReadonlyBoard, toMove: Color): BitboardPosition {
+    const position = new BitboardPosition(toMove);
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        const cell = board[row][col];
+        if (cell && cell.color) {
+          const square = row * 8 + col;
+          position.setColorBit(cell.color, square);
+          position.cells[row][col] = { color: cell.color, isNode: cell.isNode, ...(cell.nodeType ? { nodeType: cell.nodeType } : {}) };
+          if (cell.isNode) {
+            const value = yugoValue(cell);
+            position.setYugo(square, value);
+            position.scores[cell.color] += value;
+          }
+        }
+      }
+    }
+    return position;
+  }
+
+  toBoard(): Board {
+    const board: Board = [];
+    for (let row = 0; row < BOARD_SIZE; row++) {
+      board.push([]);
+      for (let col = 0; col < BOARD_SIZE; col++) {
+        const square = row * 8 + col;
+        const color = this.colorAt(square);
+        const value = this.yugoValues[square];
+        board[row].push(color
+          ? (value ? { color, isNode: true, nodeType: yugoTypeForVectors(value)! } : { color, isNode: false })
+          : null);
+      }
+    }
+    return board;
+  }
+
+  // The position as a Cell array, updated in place by make and unmake
+  get board(): ReadonlyBoard {
+    return this.cells;
+  }
+
+  colorAt(square: number): Color | null {
+    if (hasBit(this.whiteLo, this.whiteHi, square)) return 'white';
+    if (hasBit(this.blackLo, this.blackHi, square)) return 'black';
+    return null;
+  }
+
+  getScores(): { white: number; black: number } {
+    return { ...this.scores };
+  }
+
+  // Empty squares where `color` may legally play
+  legalMoveMask(color: Color = this.toMove): Mask {
+    const [lo, hi] = color === 'white' ? [this.whiteLo, this.whiteHi] : [this.blackLo, this.blackHi];
+    const [longLo, longHi] = tooLongMask(lo, hi);
+    return [
+      ~(this.whiteLo | this.blackLo) & ~longLo,
+      ~(this.whiteHi | this.blackHi) & ~longHi
+    ];
+  }
+
+  legalMoves(color: Color = this.toMove): Square[] {
+    return maskToSquares(this.legalMoveMask(color));
+  }
+
+  // Legal moves as square numbers (row * 8 + col)
+  legalSquares(color: Color = this.toMove): number[] {
+    return maskToIndexes(this.legalMoveMask(color));
+  }
+
+  hasLegalMoves(color: Color = this.toMove): boolean {
+    const [lo, hi] = this.legalMoveMask(color);
+    return lo !== 0 || hi !== 0;
+  }
+
+  isLegal(square: number, color: Color = this.toMove): boolean {
+    const [lo, hi] = this.legalMoveMask(color);
+    return hasBit(lo, hi, square);
+  }
+
+  sameAs(other: BitboardPosition): boolean {
+    return this.toMove === other.toMove &&
+      this.whiteLo === other.whiteLo && this.whiteHi === other.whiteHi &&
+      this.blackLo === other.blackLo && this.blackHi === other.blackHi &&
+      this.yugoLo === other.yugoLo && this.yugoHi === other.yugoHi &&
+      this.yugoValues.every((value, square) => value === other.yugoValues[square]);
+  }
+
+  // Play the side to move at `square`. The move must be legal.
+  make(square: number): BitboardMove {
+    const player = this.toMove;
+    this.setColorBit(player, square);
+    const [ownLo, ownHi] = player === 'white' ? [this.whiteLo, this.whiteHi] : [this.blackLo, this.blackHi];
+
+    let vectors = 0;
+    let removedLo = 0;
+    let removedHi = 0;
+    for (let d = 0; d < 8; d += 2) {
+      // Collect the line of own pieces through the square in both directions
+      let lineLo = 0;
+      let lineHi = 0;
+      let length = 1;
+      for (const table of [NEIGHBOURS[d], NEIGHBOURS[d + 1]]) {
+        for (let s = table[square]; s >= 0 && hasBit(ownLo, ownHi, s); s = table[s]) {
+          if (s < 32) lineLo |= 1 << s;
+          else lineHi |= 1 << (s - 32);
+          length++;
+        }
+      }
+      if (length === 4) {
+        vectors++;
+        // Migos in the line are removed, Yugos stay
+        removedLo |= lineLo & ~this.yugoLo;
+        removedHi |= lineHi & ~this.yugoHi;
+      }
+    }
+
+    const yugoType = yugoTypeForVectors(vectors);
+    if (yugoType) {
+      if (player === 'white') {
+        this.whiteLo &= ~removedLo;
+        this.whiteHi &= ~removedHi;
+      } else {
+        this.blackLo &= ~removedLo;
+        this.blackHi &= ~removedHi;
+      }
+      const value = Math.min(vectors, 4);
+      this.setYugo(square, value);
+      this.scores[player] += value;
+      this.setCells([removedLo, removedHi], null);
+    }
+    this.cells[square >> 3][square & 7] = yugoType ? { color: player, isNode: true, nodeType: yugoType } : { color: player, isNode: false };
+
+    const move: BitboardMove = {
+      square,
+      player,
+      vectors,
+      yugoType,
+      removed: [removedLo, removedHi],
+      igo: this.completesIgo(square, player)
+    };
+    this.history.push(move);
+    this.toMove = player === 'white' ? 'black' : 'white';
+    return move;
+  }
+
+  unmake(): void {
+    const move = this.history.pop();
+    if (!move) throw new Error('No move to unmake');
+    const { square, player, removed } = move;
+
+    const value = this.yugoValues[square];
+    if (value) {
+      this.scores[player] -= value;
+      this.yugoValues[square] = 0;
+      if (square < 32) this.yugoLo &= ~(1 << square);
+      else this.yugoHi &= ~(1 << (square - 32));
+    }
+
+    const bitLo = square < 32 ? 1 << square : 0;
+    const bitHi = square < 32 ? 0 : 1 << (square - 32);
+    if (player === 'white') {
+      this.whiteLo = (this.whiteLo & ~bitLo) | removed[0];
+      this.whiteHi = (this.whiteHi & ~bitHi) | removed[1];
+    } else {
+      this.blackLo = (this.blackLo & ~bitLo) | removed[0];
+      this.blackHi = (this.blackHi & ~bitHi) | removed[1];
+    }
+    this.cells[square >> 3][square & 7] = null;
+    this.setCells(removed, { color: player, isNode: false });
+    this.toMove = player;
+  }
+
+  private setCells([lo, hi]: Mask, cell: Cell | null): void {
+    if (lo === 0 && hi === 0) return;
+    for (const square of maskToIndexes([lo, hi])) {
+      this.cells[square >> 3][square & 7] = cell && { ...cell };
+    }
+  }
+
+  // Line of exactly 4 Yugos of `player` through the square
+  private completesIgo(square: number, player: Color): boolean {
+    const [ownLo, ownHi] = player === 'white' ? [this.whiteLo, this.whiteHi] : [this.blackLo, this.blackHi];
+    const lo = ownLo & this.yugoLo;
+    const hi = ownHi & this.yugoHi;
+    for (let d = 0; d < 8; d += 2) {
+      let length = 1;
+      for (const table of [NEIGHBOURS[d], NEIGHBOURS[d + 1]]) {
+        for (let s = table[square]; s >= 0 && hasBit(lo, hi, s); s = table[s]) {
+          length++;
+        }
+      }
+      if (length === 4) return true;
+    }
+    return false;
+  }
+
+  private setColorBit(color: Color, square: number): void {
+    const bitLo = square < 32 ? 1 << square : 0;
+    const bitHi = square < 32 ? 0 : 1 << (square - 32);
+    if (color === 'white') {
+      this.whiteLo |= bitLo;
+      this.whiteHi |= bitHi;
+    } else {
+      this.blackLo |= bitLo;
+      this.blackHi |= bitHi;
+    }
+  }
+
+  private setYugo(square: number, value: number): void {
+    this.yugoValues[square] = value;
+    if (square < 32) this.yugoLo |= 1 << square;
+    else this.yugoHi |= 1 << (square - 32);
+  }
+}
+
+// Legal moves straight from an array board, for search code that still works on Cell arrays
+export const generateMoves = (board: ReadonlyBoard, color: Color): Square[] =>
+  BitboardPosition.fromBoard(board, color).legalMoves(color);
@@ -0,0 +1,12 @@
+import { estimateElo } from './elo';
+
+test('an even match is 0 Elo with a symmetric interval', () => {
+  const estimate = estimateElo({ wins: 10, losses: 10, draws: 0 });
+  expect(estimate.elo).toBeCloseTo(0);
+  expect(estimate.high).toBeCloseTo(-estimate.low);
+  expect(estimate.high).toBeGreaterThan(100);
+});
+
+test('a 75% score is about +191 Elo', () => {
+  expect(estimateElo({ wins: 70, losses: 20, draws: 10 }).elo).toBeCloseTo(190.8, 0);
+});
@@ -0,0 +1,41 @@
+// Elo estimates from match results
+
+export interface MatchScore {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface EloEstimate {
+  // Points per game, 0 to 1
+  score: number;
+  elo: number;
+  // Confidence interval for elo
+  low: number;
+  high: number;
+}
+
+// Rating difference that predicts this expected score
+export const eloFromScore = (score: number): number => {
+  if (score <= 0) return -Infinity;
+  if (score >= 1) return Infinity;
+  return -400 * Math.log10(1 / score - 1);
+};
+
+// Elo difference with a confidence interval from the spread of game results
+// (z = 1.96 gives 95%)
+export const estimateElo = ({ wins, losses, draws }: MatchScore, z: number = 1.96): EloEstimate => {
+  const games = wins + losses + draws;
+  if (games === 0) return { score: 0.5, elo: 0, low: -Infinity, high: Infinity };
+
+  const score = (wins + draws / 2) / games;
+  const variance = (wins * (1 - score) ** 2 + draws * (0.5 - score) ** 2 + losses * score ** 2) / games;
+  // A clean sweep has no spread to measure; fall back to the widest a game result allows
+  const margin = z * Math.sqrt((variance > 0 ? variance : 0.25) / games);
+  return {
+    score,
+    elo: eloFromScore(score),
+    low: eloFromScore(score - margin),
+    high: eloFromScore(score + margin)
+  };
+};
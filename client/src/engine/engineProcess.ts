@@ -0,0 +1,167 @@
+// Node side of the engine protocol: serve the built-in engines over
+// stdin/stdout, or run an external engine process and talk to it.
+// Node only - the browser bundle never imports this file.
+
+import { ChildProcess, spawn } from 'child_process';
+import { createInterface } from 'readline';
+import { Square } from './rules';
+import { EngineMessage, GoParams, formatGo, formatPosition, parseEngineMessage } from './engineProtocol';
+import { EngineSession } from './engineSession';
+
+// Run the built-in engines as a protocol engine on this process's stdin/stdout
+export const serveStdio = (): void => {
+  const session = new EngineSession(
+    line => process.stdout.write(line + '\n'),
+    () => process.exit(0)
+  );
+  // Lines are handled one at a time so a position never overtakes the go before it,
+  // but stop still gets through while a search is running
+  let queue = Promise.resolve();
+  createInterface({ input: process.stdin })
+    .on('line', line => {
+      if (/^\s*stop\b/.test(line)) {
+        session.receive(line);
+      } else {
+        queue = queue.then(() => session.receive(line));
+      }
+    })
+    .on('close', () => {
+      queue.then(() => process.exit(0));
+    });
+};
+
+// Extra time an external engine gets past its budget before we give up on it
+const GRACE_MS = 2000;
+
+interface Waiter {
+  accept: (message: EngineMessage) => boolean;
+  resolve: (message: EngineMessage) => void;
+  reject: (error: Error) => void;
+}
+
+export class ExternalEngine {
+  name: string;
+  private waiters: Waiter[] = [];
+  private exited = false;
+
+  private constructor(private child: ChildProcess, private onInfo?: (message: EngineMessage) => void) {
+    this.name = 'external engine';
+    createInterface({ input: child.stdout! }).on('line', line => this.handleLine(line));
+    child.on('exit', () => {
+      this.exited = true;
+      this.waiters.forEach(waiter => waiter.reject(new Error(`${this.name} has exited`)));
+      this.waiters = [];
+    });
+  }
+
+  // Start an engine and complete the mei handshake
+  static async start(command: string, args: string[] = [], onInfo?: (message: EngineMessage) => void): Promise<ExternalEngine> {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+    const engine = new ExternalEngine(child, onInfo);
+    const failed = new Promise<never>((_, reject) => {
+      child.once('error', reject);
+    });
+    const names: string[] = [];
+    engine.onInfo = message => {
+      if (message.type === 'id' && message.field === 'name') names.push(message.value);
+      if (onInfo) onInfo(message);
+    };
+
+    engine.send('mei');
+    await Promise.race([engine.waitFor(message => message.type === 'meiok', 10000), failed]);
+    engine.onInfo = onInfo;
+    if (names.length > 0) engine.name = names[0];
+    return engine;
+  }
+
+  send(line: string): void {
+    if (this.exited) throw new Error(`${this.name} has exited`);
+    this.child.stdin!.write(line + '\n');
+  }
+
+  async isReady(timeoutMs: number = 10000): Promise<void> {
+    this.send('isready');
+    await this.waitFor(message => message.type === 'readyok', timeoutMs);
+  }
+
+  async newGame(): Promise<void> {
+    this.send('newgame');
+    await this.isReady();
+  }
+
+  setOption(name: string, value: string | number): void {
+    this.send(`setoption name ${name} value ${value}`);
+  }
+
+  // Best move after `moves` from the start position, or null if the engine has none
+  async bestMove(moves: Square[], params: GoParams): Promise<Square | null> {
+    this.send(formatPosition(moves));
+    this.send(formatGo(params));
+
+    const clock = moves.length % 2 === 0 ? params.wtime : params.btime;
+    const budget = params.movetime !== undefined ? params.movetime : clock;
+    const isBestMove = (message: EngineMessage) => message.type === 'bestmove';
+    if (budget === undefined) {
+      const message = await this.waitFor(isBestMove, Infinity);
+      return message.type === 'bestmove' ? message.move : null;
+    }
+
+    try {
+      const message = await this.waitFor(isBestMove, budget + GRACE_MS);
+      return message.type === 'bestmove' ? message.move : null;
+    } catch {
+      // Over time - ask for whatever it has
+      this.send('stop');
+      const message = await this.waitFor(isBestMove, GRACE_MS);
+      return message.type === 'bestmove' ? message.move : null;
+    }
+  }
+
+  quit(): void {
+    if (this.exited) return;
+    this.send('quit');
+    const timer = setTimeout(() => this.child.kill(), 1000);
+    this.child.once('exit', () => clearTimeout(timer));
+  }
+
+  private handleLine(line: string): void {
+    let message: EngineMessage;
+    try {
+      message = parseEngineMessage(line);
+    } catch {
+      message = { type: 'unknown', line };
+    }
+    if (message.type === 'info' || message.type === 'id' || message.type === 'option') {
+      if (this.onInfo) this.onInfo(message);
+    }
+    const index = this.waiters.findIndex(waiter => waiter.accept(message));
+    if (index >= 0) {
+      const [waiter] = this.waiters.splice(index, 1);
+      waiter.resolve(message);
+    }
+  }
+
+  private waitFor(accept: (message: EngineMessage) => boolean, timeoutMs: number): Promise<EngineMessage> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter: Waiter = {
+        accept,
+        resolve: message => {
+          if (timer) clearTimeout(timer);
+          resolve(message);
+        },
+        reject: error => {
+          if (timer) clearTimeout(timer);
+          reject(error);
+        }
+      };
+      this.waiters.push(waiter);
+      if (Number.isFinite(timeoutMs)) {
+        timer = setTimeout(() => {
+          this.waiters = this.waiters.filter(other => other !== waiter);
+          reject(new Error(`${this.name} did not answer within ${timeoutMs} ms`));
+        }, timeoutMs);
+      }
+    });
+  }
+}
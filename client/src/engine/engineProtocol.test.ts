@@ -0,0 +1,23 @@
+import { formatGo, formatPosition, parseCommand, parseEngineMessage } from './engineProtocol';
+import { EngineSession } from './engineSession';
+
+test('commands survive formatting and parsing', () => {
+  const moves = [{ row: 3, col: 3 }, { row: 4, col: 4 }];
+  expect(formatPosition(moves)).toBe('position startpos moves d5 e4');
+  expect(parseCommand(formatPosition(moves))).toEqual({ type: 'position', moves });
+  expect(parseCommand(formatGo({ wtime: 60000, winc: 2000 }))).toEqual({ type: 'go', params: { wtime: 60000, winc: 2000 } });
+  expect(parseEngineMessage('info depth 2 score -40 pv d5 e4')).toEqual({ type: 'info', depth: 2, score: -40, pv: moves });
+});
+
+test('the built-in engines answer go with a legal bestmove', async () => {
+  const lines: string[] = [];
+  const session = new EngineSession(line => lines.push(line));
+  await session.receive('setoption name Engine value ai-2');
+  await session.receive('position startpos moves d5');
+  await session.receive('go movetime 100');
+  await session.receive('isready');
+
+  const bestMove = parseEngineMessage(lines[lines.length - 2]);
+  expect(bestMove.type).toBe('bestmove');
+  expect(lines[lines.length - 1]).toBe('readyok');
+});
@@ -0,0 +1,137 @@
+// Line protocol between a controller (the server, the tournament runner, a GUI)
+// and an engine, modelled on UCI. One command per line, words separated by
+// spaces, squares named as on the board ('e4').
+//
+// Controller to engine:
+//   mei                                  identify; the engine replies with id and option lines, then meiok
+//   isready                              replied to with readyok once earlier commands are done
+//   setoption name <name> value <value>
+//   newgame                              the next position starts a new game
+//   position startpos [moves <square> ...]
+//   go [wtime <ms>] [btime <ms>] [winc <ms>] [binc <ms>] [movetime <ms>] [depth <n>]
+//   stop                                 end the search and reply with bestmove (built-in engines finish the depth in progress)
+//   quit
+//
+// Engine to controller:
+//   id name <name> / id author <author>
+//   option name <name> type <combo|spin> default <value> [var <value> ...] [min <n> max <n>]
+//   meiok / readyok
+//   info [depth <n>] [score <n>] [time <ms>] [pv <square> ...] / info string <text>
+//   bestmove <square> | bestmove none     (none when the side to move has no legal move)
+
+import { Square } from './rules';
+import { parseSquareName, squareName } from './notation';
+
+export interface GoParams {
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movetime?: number;
+  depth?: number;
+}
+
+export type ControllerCommand =
+  | { type: 'mei' }
+  | { type: 'isready' }
+  | { type: 'setoption'; name: string; value: string }
+  | { type: 'newgame' }
+  | { type: 'position'; moves: Square[] }
+  | { type: 'go'; params: GoParams }
+  | { type: 'stop' }
+  | { type: 'quit' }
+  | { type: 'unknown'; line: string };
+
+export type EngineMessage =
+  | { type: 'id'; field: string; value: string }
+  | { type: 'option'; line: string }
+  | { type: 'meiok' }
+  | { type: 'readyok' }
+  | { type: 'info'; depth?: number; score?: number; time?: number; pv?: Square[]; text?: string }
+  | { type: 'bestmove'; move: Square | null }
+  | { type: 'unknown'; line: string };
+
+const GO_PARAMS: (keyof GoParams)[] = ['wtime', 'btime', 'winc', 'binc', 'movetime', 'depth'];
+
+const words = (line: string): string[] => line.trim().split(/\s+/).filter(Boolean);
+
+const parseSquares = (names: string[]): Square[] => names.map(name => {
+  const square = parseSquareName(name);
+  if (!square) throw new Error(`Bad square '${name}'`);
+  return square;
+});
+
+// Throws on a malformed position or go command
+export const parseCommand = (line: string): ControllerCommand => {
+  const [command, ...args] = words(line);
+  switch (command) {
+    case 'mei':
+    case 'isready':
+    case 'newgame':
+    case 'stop':
+    case 'quit':
+      return { type: command };
+    case 'setoption': {
+      const valueAt = args.indexOf('value');
+      if (args[0] !== 'name' || valueAt < 2) throw new Error(`Bad setoption '${line}'`);
+      return { type: 'setoption', name: args.slice(1, valueAt).join(' '), value: args.slice(valueAt + 1).join(' ') };
+    }
+    case 'position': {
+      if (args[0] !== 'startpos') throw new Error(`Unsupported position '${line}'`);
+      if (args.length > 1 && args[1] !== 'moves') throw new Error(`Bad position '${line}'`);
+      return { type: 'position', moves: parseSquares(args.slice(2)) };
+    }
+    case 'go': {
+      const params: GoParams = {};
+      for (let i = 0; i < args.length; i += 2) {
+        const name = args[i] as keyof GoParams;
+        const value = Number(args[i + 1]);
+        if (!GO_PARAMS.includes(name) || !Number.isFinite(value)) throw new Error(`Bad go '${line}'`);
+        params[name] = value;
+      }
+      return { type: 'go', params };
+    }
+    default:
+      return { type: 'unknown', line };
+  }
+};
+
+export const parseEngineMessage = (line: string): EngineMessage => {
+  const [message, ...args] = words(line);
+  switch (message) {
+    case 'id':
+      return { type: 'id', field: args[0], value: args.slice(1).join(' ') };
+    case 'option':
+      return { type: 'option', line };
+    case 'meiok':
+    case 'readyok':
+      return { type: message };
+    case 'bestmove':
+      return { type: 'bestmove', move: args[0] && args[0] !== 'none' ? parseSquares([args[0]])[0] : null };
+    case 'info': {
+      if (args[0] === 'string') return { type: 'info', text: args.slice(1).join(' ') };
+      const info: EngineMessage = { type: 'info' };
+      for (let i = 0; i < args.length; i++) {
+        if (args[i] === 'pv') {
+          info.pv = parseSquares(args.slice(i + 1));
+          break;
+        }
+        if (args[i] === 'depth' || args[i] === 'score' || args[i] === 'time') {
+          info[args[i] as 'depth' | 'score' | 'time'] = Number(args[++i]);
+        }
+      }
+      return info;
+    }
+    default:
+      return { type: 'unknown', line };
+  }
+};
+
+export const formatPosition = (moves: Square[]): string =>
+  moves.length > 0 ? `position startpos moves ${moves.map(squareName).join(' ')}` : 'position startpos';
+
+export const formatGo = (params: GoParams): string =>
+  ['go', ...GO_PARAMS.filter(name => params[name] !== undefined).map(name => `${name} ${Math.round(params[name]!)}`)].join(' ');
+
+export const formatBestMove = (move: Square | null): string =>
+  `bestmove ${move ? squareName(move) : 'none'}`;
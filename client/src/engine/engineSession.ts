@@ -0,0 +1,136 @@
+// Engine side of the line protocol for the built-in engines
+// Doesn't touch stdin/stdout itself: feed it lines with receive() and it answers
+// through send(), so it can sit behind a process pipe, a socket or a test.
+
+import { AIEngine, SearchMove, TranspositionTable, getAIMove, iterativeDeepening } from './ai';
+import { Color, Position, createInitialPosition, getAllValidMoves, replayMoves } from './rules';
+import { GoParams, formatBestMove, parseCommand } from './engineProtocol';
+import { squareName } from './notation';
+import { allocateThinkTime } from './timeManagement';
+
+const ENGINES: AIEngine[] = ['ai-1', 'ai-2', 'ai-3', 'ai-4'];
+const DEFAULT_MAX_DEPTH = 6;
+
+// Let queued input (stop, quit) through between search depths
+const yieldToInput = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export class EngineSession {
+  private engine: AIEngine = 'ai-4';
+  private maxDepth = DEFAULT_MAX_DEPTH;
+  private position: Position = createInitialPosition();
+  private transTable = new TranspositionTable();
+  private search: Promise<void> | null = null;
+  private stopRequested = false;
+
+  constructor(private send: (line: string) => void, private onQuit: () => void = () => {}) {}
+
+  // Handle one line from the controller. Resolves once the command is done
+  // (for go, when the search has been started).
+  async receive(line: string): Promise<void> {
+    if (!line.trim()) return;
+    let command;
+    try {
+      command = parseCommand(line);
+    } catch (error) {
+      this.send(`info string ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    switch (command.type) {
+      case 'mei':
+        this.send('id name Migoyugo CORE');
+        this.send('id author migoyugo');
+        this.send(`option name Engine type combo default ai-4 ${ENGINES.map(engine => `var ${engine}`).join(' ')}`);
+        this.send(`option name MaxDepth type spin default ${DEFAULT_MAX_DEPTH} min 1 max 12`);
+        this.send('meiok');
+        break;
+      case 'isready':
+        await this.search;
+        this.send('readyok');
+        break;
+      case 'setoption':
+        this.setOption(command.name, command.value);
+        break;
+      case 'newgame':
+        await this.search;
+        this.transTable.clear();
+        this.position = createInitialPosition();
+        break;
+      case 'position':
+        await this.search;
+        try {
+          const results = replayMoves(command.moves);
+          this.position = results.length > 0 ? results[results.length - 1].position : createInitialPosition();
+        } catch (error) {
+          this.position = createInitialPosition();
+          this.send(`info string ${error instanceof Error ? error.message : String(error)}`);
+        }
+        break;
+      case 'go':
+        await this.search;
+        this.stopRequested = false;
+        this.search = this.go(command.params).finally(() => {
+          this.search = null;
+        });
+        break;
+      case 'stop':
+        this.stopRequested = true;
+        await this.search;
+        break;
+      case 'quit':
+        this.stopRequested = true;
+        await this.search;
+        this.onQuit();
+        break;
+      default:
+        this.send(`info string Unknown command '${command.line}'`);
+    }
+  }
+
+  private setOption(name: string, value: string): void {
+    if (name === 'Engine' && ENGINES.includes(value as AIEngine)) {
+      this.engine = value as AIEngine;
+    } else if (name === 'MaxDepth' && Number(value) >= 1) {
+      this.maxDepth = Math.floor(Number(value));
+    } else {
+      this.send(`info string Bad option ${name} = ${value}`);
+    }
+  }
+
+  private thinkTime(params: GoParams, toMove: Color): number {
+    if (params.movetime !== undefined) return params.movetime;
+    const remainingMs = toMove === 'white' ? params.wtime : params.btime;
+    const incrementMs = (toMove === 'white' ? params.winc : params.binc) || 0;
+    const emptySquares = this.position.board.flat().filter(cell => cell === null).length;
+    return allocateThinkTime(this.engine, emptySquares, remainingMs !== undefined ? { remainingMs, incrementMs } : null);
+  }
+
+  private async go(params: GoParams): Promise<void> {
+    const { board, toMove } = this.position;
+    const searchBoard = board.map(row => [...row]);
+    if (getAllValidMoves(searchBoard, toMove).length === 0) {
+      this.send(formatBestMove(null));
+      return;
+    }
+
+    const timeMs = this.thinkTime(params, toMove);
+    const start = Date.now();
+    if (this.engine !== 'ai-4') {
+      this.send(formatBestMove(getAIMove(searchBoard, this.engine, toMove, timeMs)));
+      return;
+    }
+
+    const search = iterativeDeepening(searchBoard, timeMs, toMove, this.transTable, params.depth || this.maxDepth);
+    let best: SearchMove | null = null;
+    let step = search.next();
+    while (!step.done) {
+      const { depth, score, bestMove } = step.value;
+      best = bestMove || best;
+      this.send(`info depth ${depth} score ${Math.round(score)} time ${Date.now() - start}${bestMove ? ` pv ${squareName(bestMove)}` : ''}`);
+      await yieldToInput();
+      if (this.stopRequested && best) break;
+      step = search.next();
+    }
+    this.send(formatBestMove(step.done ? step.value : best));
+  }
+}
@@ -0,0 +1,30 @@
+import { TranspositionTable } from './ai';
+import { GameReport, reviewGame } from './gameReport';
+import { decodePosition } from './positionNotation';
+import { Square } from './rules';
+
+const review = (text: string, moves: Square[]): GameReport => {
+  const report = reviewGame(decodePosition(text).position, moves, { maxTimeMs: 5000, maxDepth: 1 }, new TranspositionTable());
+  let step = report.next();
+  while (!step.done) step = report.next();
+  return step.value;
+};
+
+test('taking the Igo is a good move, passing it up is a blunder', () => {
+  const taken = review('WWW5/3w4/3w4/3w4/8/8/8/8 w 1', [{ row: 0, col: 3 }]);
+  expect(taken.moves[0]).toMatchObject({ player: 'white', classification: 'good', missedIgo: null, after: 100000 });
+  expect(taken.accuracy.white).toBe(100);
+
+  const missed = review('WWW5/3w4/3w4/3w4/8/8/8/8 w 1', [{ row: 7, col: 7 }]);
+  expect(missed.moves[0]).toMatchObject({ classification: 'blunder', missedIgo: { row: 0, col: 3 } });
+  expect(missed.moves[0].swing).toBeGreaterThan(0);
+  expect(missed.accuracy.white).toBeLessThan(100);
+});
+
+test("leaving the opponent's Igo open is a missed block", () => {
+  const report = review('BBB5/3b4/3b4/3b4/8/8/8/8 w 1', [{ row: 7, col: 7 }]);
+  expect(report.moves[0]).toMatchObject({ classification: 'blunder', missedIgo: null, missedBlock: { row: 0, col: 3 } });
+
+  const blocked = review('BBB5/3b4/3b4/3b4/8/8/8/8 w 1', [{ row: 0, col: 3 }]);
+  expect(blocked.moves[0].missedBlock).toBeNull();
+});
@@ -0,0 +1,137 @@
+// Post-game accuracy report: every position of a finished game is analysed
+// with AI-4 and each move is judged by how much it lost against the best move.
+//
+// Losses are measured in winning chances (the same curve as the review
+// evaluation bar) so that swings in a decided game count for little and
+// throwing away a won position counts for a lot. A move that leaves an Igo on
+// the table or fails to stop the opponent's is always a blunder.
+
+import { Board, Color, Position, Square, applyMove, opponentOf } from './rules';
+import { IGO_SCORE, analyzePosition } from './analysis';
+import { TranspositionTable, detectImmediateWin, detectThreeNodeThreat } from './ai';
+
+export type MoveClassification = 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface MoveReview extends Square {
+  // Index of the move in the game, from 0
+  ply: number;
+  player: Color;
+  // Evaluations from White's point of view before and after the move
+  before: number;
+  after: number;
+  // Evaluation the player gave away with the move, never negative
+  swing: number;
+  classification: MoveClassification;
+  // Igo the player could have made instead
+  missedIgo: Square | null;
+  // Igo threat of the opponent's that the move left open
+  missedBlock: Square | null;
+}
+
+export interface GameReport {
+  moves: MoveReview[];
+  // 0-100, the average share of winning chances kept per move
+  accuracy: Record<Color, number>;
+}
+
+export interface ReportOptions {
+  // Search limits for each position
+  maxTimeMs: number;
+  maxDepth: number;
+}
+
+export interface ReportProgress {
+  analyzed: number;
+  total: number;
+}
+
+// Loss in winning chances at which a move is flagged
+const INACCURACY = 0.1;
+const MISTAKE = 0.2;
+const BLUNDER = 0.3;
+
+// White's chance of winning for an evaluation from White's point of view
+export const winChance = (evaluation: number): number => 1 / (1 + Math.exp(-evaluation / 400));
+
+const classify = (loss: number): MoveClassification =>
+  loss >= BLUNDER ? 'blunder' : loss >= MISTAKE ? 'mistake' : loss >= INACCURACY ? 'inaccuracy' : 'good';
+
+const sameSquare = (a: Square, b: Square): boolean => a.row === b.row && a.col === b.col;
+
+// Share of the mover's winning chances lost by going from one evaluation to the next
+const chanceLost = (player: Color, before: number, after: number): number =>
+  Math.max(0, (player === 'white' ? 1 : -1) * (winChance(before) - winChance(after)));
+
+// Reports progress after each position; throws if the moves aren't a legal game
+export function* reviewGame(
+  start: Position,
+  moves: Square[],
+  options: ReportOptions,
+  transTable: TranspositionTable
+): Generator<ReportProgress, GameReport, void> {
+  // Replay first so an illegal move fails before any searching
+  const positions: Position[] = [start];
+  const results = moves.map(move => {
+    const result = applyMove(positions[positions.length - 1], move.row, move.col);
+    positions.push(result.position);
+    return result;
+  });
+
+  // Evaluation of every position, White's point of view
+  const evaluations: number[] = [];
+  for (let index = 0; index < positions.length; index++) {
+    const previous = results[index - 1];
+    if (previous && previous.gameOver) {
+      const winner = previous.winner;
+      evaluations.push(winner === 'white' ? IGO_SCORE : winner === 'black' ? -IGO_SCORE : 0);
+    } else {
+      const { board, toMove } = positions[index];
+      const analysis = analyzePosition(board as Board, toMove, { ...options, lines: 1 }, transTable);
+      let step = analysis.next();
+      while (!step.done) step = analysis.next();
+      const best = step.value.candidates[0];
+      evaluations.push(best ? best.score : step.value.evaluation);
+    }
+    yield { analyzed: index + 1, total: positions.length };
+  }
+
+  const reviews = results.map((result, ply): MoveReview => {
+    const { player } = result.move;
+    const sign = player === 'white' ? 1 : -1;
+    const before = evaluations[ply];
+    const after = evaluations[ply + 1];
+
+    const board = positions[ply].board as Board;
+    const madeIgo = !!result.igoLine;
+    const wins = madeIgo ? [] : detectImmediateWin(board, player);
+    const opponent = opponentOf(player);
+    const threats = wins.length > 0 ? [] : detectThreeNodeThreat(board, opponent);
+    // The detector counts a gap holding a Migo as open, so check the square is really empty
+    const next = result.position.board;
+    const stillOpen = detectThreeNodeThreat(next as Board, opponent).filter(threat => !next[threat.row][threat.col]);
+    const missedBlock = threats.find(threat => stillOpen.some(open => sameSquare(open, threat))) || null;
+    const missedIgo = wins[0] || null;
+
+    return {
+      row: result.move.row,
+      col: result.move.col,
+      ply,
+      player,
+      before,
+      after,
+      swing: Math.max(0, sign * (before - after)),
+      classification: missedIgo || missedBlock ? 'blunder' : classify(chanceLost(player, before, after)),
+      missedIgo: missedIgo && { row: missedIgo.row, col: missedIgo.col },
+      missedBlock: missedBlock && { row: missedBlock.row, col: missedBlock.col }
+    };
+  });
+
+  const accuracyOf = (color: Color): number => {
+    const own = reviews.filter(review => review.player === color);
+    if (own.length === 0) return 100;
+    const kept = own.reduce((sum, review) => sum + 1 - chanceLost(color, review.before, review.after), 0);
+    return Math.round(1000 * kept / own.length) / 10;
+  };
+
+  return { moves: reviews, accuracy: { white: accuracyOf('white'), black: accuracyOf('black') } };
+}
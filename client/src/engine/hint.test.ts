@@ -0,0 +1,17 @@
+import { explainMove } from './hint';
+import { decodePosition } from './positionNotation';
+import { Board } from './rules';
+
+const boardOf = (text: string): Board => decodePosition(text).position.board as Board;
+
+test('an Igo comes before everything else, then blocking one', () => {
+  const board = boardOf('WWW5/3w4/3w4/3w4/BBB5/8/8/8 w 1');
+  expect(explainMove(board, { row: 0, col: 3 }, 'white')).toBe('igo');
+  expect(explainMove(board, { row: 4, col: 3 }, 'white')).toBe('block-igo');
+});
+
+test('a Yugo is explained, a quiet move is not', () => {
+  const board = boardOf('8/8/8/8/8/www5/8/8 w 1');
+  expect(explainMove(board, { row: 5, col: 3 }, 'white')).toBe('yugo');
+  expect(explainMove(board, { row: 0, col: 7 }, 'white')).toBeNull();
+});
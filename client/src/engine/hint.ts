@@ -0,0 +1,31 @@
+// Why a suggested move is good, in words a newer player can act on. Only the
+// patterns the engine's own detectors know about are explained; a move that
+// fits none of them gets no reason.
+
+import { Board, Color, Square, isValidMove, opponentOf, placeMigo } from './rules';
+import { detectImmediateWin, detectNexusFork, detectVectorToForkThreat } from './ai';
+
+export type HintReason = 'igo' | 'block-igo' | 'fork' | 'yugo' | 'block-fork';
+
+export const HINT_REASONS: Record<HintReason, string> = {
+  igo: 'completes an Igo',
+  'block-igo': 'blocks an Igo threat',
+  fork: 'creates a fork',
+  yugo: 'completes a Yugo',
+  'block-fork': 'stops a fork'
+};
+
+const includes = (squares: Square[], move: Square): boolean =>
+  squares.some(square => square.row === move.row && square.col === move.col);
+
+// The most important reason that applies; an illegal move has none
+export const explainMove = (board: Board, move: Square, color: Color): HintReason | null => {
+  if (!isValidMove(board, move.row, move.col, color)) return null;
+  const opponent = opponentOf(color);
+  if (includes(detectImmediateWin(board, color), move)) return 'igo';
+  if (includes(detectImmediateWin(board, opponent), move)) return 'block-igo';
+  if (includes(detectNexusFork(board, color), move) || includes(detectVectorToForkThreat(board, color), move)) return 'fork';
+  if (placeMigo(board, move.row, move.col, color).yugoType) return 'yugo';
+  if (includes(detectNexusFork(board, opponent), move)) return 'block-fork';
+  return null;
+};
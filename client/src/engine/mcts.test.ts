@@ -0,0 +1,18 @@
+import { mctsSearch } from './mcts';
+import { createEmptyBoard } from './rules';
+
+test('MCTS finds an Igo in one', () => {
+  const board = createEmptyBoard();
+  [0, 1, 2].forEach(col => { board[0][col] = { color: 'white', isNode: true, nodeType: 'standard' }; });
+  board[7][7] = { color: 'black', isNode: false };
+
+  const result = mctsSearch(board, 'white', { iterations: 300, timeMs: 5000, reuseTree: false });
+  expect(result.move).toEqual({ row: 0, col: 3 });
+  expect(result.value).toBe(1);
+});
+
+test('MCTS search is bounded by its iteration budget', () => {
+  const result = mctsSearch(createEmptyBoard(), 'black', { iterations: 50, timeMs: 5000, rollout: 'random' });
+  expect(result.iterations).toBe(50);
+  expect(result.move).not.toBeNull();
+});
@@ -0,0 +1,257 @@
+// Monte Carlo tree search (UCT) for AI-3
+// Runs on the bitboard position with make/unmake. Rewards are 1 for a win,
+// 0.5 for a drawn Wego and 0 for a loss, from the point of view of the player
+// who made the move leading to each node.
+
+import { BitboardPosition } from './bitboard';
+import { Cell, Color } from './rules';
+
+export type RolloutPolicy = 'random' | 'tactical' | ((position: BitboardPosition, moves: number[]) => number);
+
+export interface MCTSOptions {
+  // Stop after this many iterations or this many milliseconds, whichever comes first
+  iterations?: number;
+  timeMs?: number;
+  selection?: 'ucb1' | 'puct';
+  // Exploration constant (c in UCB1 / PUCT)
+  exploration?: number;
+  rollout?: RolloutPolicy;
+  // Plies before a rollout is cut off and scored on Yugo count
+  rolloutDepth?: number;
+  // Keep the subtree of the position reached since the last search
+  reuseTree?: boolean;
+}
+
+export interface MCTSResult {
+  move: { row: number; col: number } | null;
+  iterations: number;
+  // Expected reward of the chosen move for the side to move
+  value: number;
+}
+
+const DEFAULT_OPTIONS: Required<MCTSOptions> = {
+  iterations: 5000,
+  timeMs: 1500,
+  selection: 'ucb1',
+  exploration: Math.SQRT2,
+  rollout: 'tactical',
+  rolloutDepth: 24,
+  reuseTree: true
+};
+
+interface MCTSNode {
+  // Square played to reach this node (-1 at the root) and who played it
+  square: number;
+  player: Color;
+  parent: MCTSNode | null;
+  children: MCTSNode[] | null;
+  prior: number;
+  visits: number;
+  // Sum of rewards for `player`
+  value: number;
+  // Set when the game is over at this node
+  winner: Color | 'draw' | null;
+}
+
+const createNode = (square: number, player: Color, parent: MCTSNode | null, prior: number): MCTSNode => ({
+  square,
+  player,
+  parent,
+  children: null,
+  prior,
+  visits: 0,
+  value: 0,
+  winner: null
+});
+
+const opponent = (color: Color): Color => (color === 'white' ? 'black' : 'white');
+
+const scoreWinner = (position: BitboardPosition): Color | 'draw' => {
+  const scores = position.getScores();
+  if (scores.white > scores.black) return 'white';
+  if (scores.black > scores.white) return 'black';
+  return 'draw';
+};
+
+const reward = (winner: Color | 'draw', player: Color): number =>
+  winner === 'draw' ? 0.5 : winner === player ? 1 : 0;
+
+// Prefer an Igo, then the biggest Yugo, then anything
+const tacticalRollout = (position: BitboardPosition, moves: number[]): number => {
+  let best = -1;
+  let bestVectors = 0;
+  for (const square of moves) {
+    const move = position.make(square);
+    position.unmake();
+    if (move.igo) return square;
+    if (move.vectors > bestVectors) {
+      bestVectors = move.vectors;
+      best = square;
+    }
+  }
+  return best >= 0 ? best : moves[Math.floor(Math.random() * moves.length)];
+};
+
+const randomRollout = (position: BitboardPosition, moves: number[]): number =>
+  moves[Math.floor(Math.random() * moves.length)];
+
+// Create the children of a node; priors favour Igos and Yugo formation (used by PUCT)
+const expand = (node: MCTSNode, position: BitboardPosition): void => {
+  const moves = position.legalSquares();
+  const player = position.toMove;
+  const weights = moves.map(square => {
+    const move = position.make(square);
+    position.unmake();
+    return move.igo ? 20 : 1 + 2 * move.vectors;
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  node.children = moves.map((square, i) => createNode(square, player, node, weights[i] / total));
+};
+
+const selectChild = (node: MCTSNode, options: Required<MCTSOptions>): MCTSNode => {
+  const children = node.children!;
+  let best = children[0];
+  let bestScore = -Infinity;
+  const logVisits = Math.log(node.visits);
+  const sqrtVisits = Math.sqrt(node.visits);
+
+  for (const child of children) {
+    let score: number;
+    if (options.selection === 'puct') {
+      const q = child.visits > 0 ? child.value / child.visits : 0.5;
+      score = q + options.exploration * child.prior * sqrtVisits / (1 + child.visits);
+    } else {
+      if (child.visits === 0) return child;
+      score = child.value / child.visits + options.exploration * Math.sqrt(logVisits / child.visits);
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = child;
+    }
+  }
+  return best;
+};
+
+const rollout = (position: BitboardPosition, options: Required<MCTSOptions>): Color | 'draw' => {
+  const policy = options.rollout === 'random' ? randomRollout
+    : options.rollout === 'tactical' ? tacticalRollout
+    : options.rollout;
+  let plies = 0;
+  let winner: Color | 'draw' | null = null;
+
+  while (plies < options.rolloutDepth) {
+    const moves = position.legalSquares();
+    if (moves.length === 0) {
+      winner = scoreWinner(position);
+      break;
+    }
+    const move = position.make(policy(position, moves));
+    plies++;
+    if (move.igo) {
+      winner = move.player;
+      break;
+    }
+  }
+
+  // Cut off - score on Yugo count like a Wego
+  if (!winner) winner = scoreWinner(position);
+  for (let i = 0; i < plies; i++) position.unmake();
+  return winner;
+};
+
+// Tree kept between searches so the next move can reuse it
+let lastSearch: { root: MCTSNode; position: BitboardPosition } | null = null;
+
+// Find the node for `position` among the root's children and grandchildren
+const findReusableRoot = (position: BitboardPosition): MCTSNode | null => {
+  if (!lastSearch) return null;
+  const { root, position: previous } = lastSearch;
+  if (previous.sameAs(position)) return root;
+
+  for (const child of root.children || []) {
+    previous.make(child.square);
+    if (previous.sameAs(position)) {
+      previous.unmake();
+      return child;
+    }
+    for (const grandchild of child.children || []) {
+      previous.make(grandchild.square);
+      const found = previous.sameAs(position);
+      previous.unmake();
+      if (found) {
+        previous.unmake();
+        return grandchild;
+      }
+    }
+    previous.unmake();
+  }
+  return null;
+};
+
+export const mctsSearch = (board: (Cell | null)[][], playerColor: Color, mctsOptions: MCTSOptions = {}): MCTSResult => {
+  const options = { ...DEFAULT_OPTIONS, ...mctsOptions };
+  const position = BitboardPosition.fromBoard(board, playerColor);
+
+  let root = options.reuseTree ? findReusableRoot(position) : null;
+  if (root) {
+    root.parent = null;
+  } else {
+    root = createNode(-1, opponent(playerColor), null, 1);
+  }
+  lastSearch = { root, position: BitboardPosition.fromBoard(board, playerColor) };
+
+  if (!root.children) expand(root, position);
+  if (root.children!.length === 0) return { move: null, iterations: 0, value: 0 };
+
+  const start = Date.now();
+  let iterations = 0;
+  while (iterations < options.iterations && Date.now() - start < options.timeMs) {
+    iterations++;
+    let node = root;
+    let depth = 0;
+
+    // Selection
+    while (node.children && node.children.length > 0 && !node.winner) {
+      node = selectChild(node, options);
+      const move = position.make(node.square);
+      depth++;
+      if (move.igo) node.winner = move.player;
+    }
+
+    // Expansion
+    if (!node.winner && !node.children) {
+      expand(node, position);
+      if (node.children!.length === 0) {
+        node.winner = scoreWinner(position);
+      } else {
+        node = node.children![Math.floor(Math.random() * node.children!.length)];
+        const move = position.make(node.square);
+        depth++;
+        if (move.igo) node.winner = move.player;
+      }
+    } else if (!node.winner && node.children!.length === 0) {
+      node.winner = scoreWinner(position);
+    }
+
+    // Simulation
+    const winner = node.winner || rollout(position, options);
+
+    // Backpropagation
+    for (let n: MCTSNode | null = node; n; n = n.parent) {
+      n.visits++;
+      n.value += reward(winner, n.player);
+    }
+    for (let i = 0; i < depth; i++) position.unmake();
+  }
+
+  // Most visited move is the most reliable choice
+  const best = root.children!.reduce((a, b) => (b.visits > a.visits ? b : a));
+  return {
+    move: { row: best.square >> 3, col: best.square & 7 },
+    iterations,
+    value: best.visits > 0 ? best.value / best.visits : 0.5
+  };
+};
+
+export const mcts = (board: (Cell | null)[][], playerColor: Color, options: MCTSOptions = {}): { row: number; col: number } | null =>
+  mctsSearch(board, playerColor, options).move;
@@ -0,0 +1,62 @@
+import { parseMgn, writeMgn } from './mgn';
+
+const MOVES = [
+  { row: 0, col: 0 }, { row: 7, col: 7 },
+  { row: 0, col: 1 }, { row: 7, col: 6 },
+  { row: 0, col: 2 }, { row: 7, col: 5 },
+  { row: 0, col: 3, annotation: '!' as const, comment: 'first Yugo' }
+];
+
+test('a written game parses back with its tags, comments and boards', () => {
+  const text = writeMgn({
+    tags: { White: 'Alice "A"', Black: 'CORE AI-2', Mode: 'ai-2', TimeControl: '600+5' },
+    moves: MOVES,
+    result: 'white',
+    termination: 'resignation'
+  });
+  expect(text).toContain('4. d8●! {first Yugo} 1-0');
+
+  const game = parseMgn(text);
+  expect(game.tags.White).toBe('Alice "A"');
+  expect(game.moves).toEqual(MOVES);
+  expect(game.result).toBe('white');
+  expect(game.termination).toBe('resignation');
+  expect(game.boardHistory).toHaveLength(7);
+  expect(game.boardHistory[6][0][3]).toEqual({ color: 'white', isNode: true, nodeType: 'standard' });
+});
+
+test('wrong Yugo markers and illegal moves are rejected', () => {
+  expect(() => parseMgn('1. a8○ h1 *')).toThrow('marked ○ but forms no Yugo');
+  expect(() => parseMgn('1. a8!!! h1 *')).toThrow("Unexpected 'a8!!!'");
+  expect(() => parseMgn('1. a8 a8 *')).toThrow('Move 2 (a8) is illegal');
+});
+
+test('a game from a set-up position keeps its start and move numbers', () => {
+  const text = writeMgn({
+    tags: { Position: '3w4/8/8/8/8/8/8/8 b 7' },
+    moves: [{ row: 7, col: 7 }, { row: 0, col: 4 }],
+    result: null,
+    termination: null
+  });
+  expect(text).toContain('7... h1 8. e8 *');
+
+  const game = parseMgn(text);
+  expect(game.start!.moveNumber).toBe(7);
+  expect(game.boardHistory[1][0][3]).toEqual({ color: 'white', isNode: false });
+});
+
+test('variations are written in parentheses and read back as a tree', () => {
+  const moves = [
+    { row: 0, col: 0 },
+    { row: 7, col: 7, variations: [[{ row: 7, col: 0 }, { row: 0, col: 7, variations: [[{ row: 1, col: 1, comment: 'sharper' }]] }]] },
+    { row: 0, col: 1 }
+  ];
+  const text = writeMgn({ tags: {}, moves, result: null, termination: null });
+  expect(text).toContain('1. a8 h1 (1... a1 2. h8 (2. b7 {sharper})) 2. b8 *');
+
+  const game = parseMgn(text);
+  expect(game.moves).toEqual(moves);
+  expect(game.results).toHaveLength(3);
+  expect(() => parseMgn('1. a8 h1 (1... a8) *')).toThrow('Move 2 (a8) is illegal');
+  expect(() => parseMgn('1. a8 (h1')).toThrow('Unclosed variation');
+});
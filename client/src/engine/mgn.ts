@@ -0,0 +1,274 @@
+// Migoyugo Game Notation (MGN)
+//
+//   [Event "Migoyugo Game"]
+//   [Date "2025.06.14"]
+//   [White "Alice"]
+//   [Black "CORE AI-4"]
+//   [Mode "ai-4"]
+//   [TimeControl "600+5"]
+//   [Position "8/8/8/8/8/8/8/8 w 1"]
+//   [Result "1-0"]
+//   [Termination "Igo"]
+//
+//   1. d5 e4 2. c6 {a quiet start} f3 (2... e5 3. f4) ... 14. g2● h7 ... 1-0
+//
+// Tags are [Name "value"] lines. TimeControl is seconds per player plus
+// increment, or "-" for untimed games. Result is 1-0, 0-1, 1/2-1/2 or * for a
+// game still in progress. Termination is Igo, Wego, Timeout, Resignation, Draw
+// (agreed) or Disconnection (an online player who didn't come back).
+//
+// Position is only there for a game that didn't start from the empty board,
+// in position notation (positionNotation.ts). WhiteHints and BlackHints count
+// the hints each side took, and Takebacks the moves taken back, in games where
+// any were.
+//
+// Squares are named as on the board. A move that forms a Yugo carries its
+// marker: ● standard, ○ double, △ triple, ◇ quadruple, then any annotation
+// symbol (!, ?, !!, ??, !?, ?!). Comments go in braces after the move they
+// belong to. A variation goes in parentheses after the move it replaces, and
+// can hold variations of its own.
+
+import { Board, Color, MoveResult, Position, Square, YugoType, applyMove, createInitialPosition } from './rules';
+import { parseSquareName, squareName } from './notation';
+import { PositionSetup, decodePosition, moveNumberAfter } from './positionNotation';
+
+export type GameTermination = 'igo' | 'wego' | 'timeout' | 'resignation' | 'draw' | 'disconnection';
+
+export type MoveAnnotation = '!' | '?' | '!!' | '??' | '!?' | '?!';
+
+export const MOVE_ANNOTATIONS: MoveAnnotation[] = ['!', '?', '!!', '??', '!?', '?!'];
+
+export interface MgnMove extends Square {
+  annotation?: MoveAnnotation;
+  comment?: string;
+  // Lines played instead of this move
+  variations?: MgnMove[][];
+}
+
+export interface GameRecord {
+  tags: { [name: string]: string };
+  moves: MgnMove[];
+  // null while the game is unfinished
+  result: Color | 'draw' | null;
+  termination: GameTermination | null;
+}
+
+export interface ParsedGame extends GameRecord {
+  // From the Position tag, null for a game from the empty board
+  start: PositionSetup | null;
+  // Result of every main line move, and the board after each one
+  results: MoveResult[];
+  boardHistory: Board[];
+}
+
+const YUGO_MARKERS: Record<YugoType, string> = {
+  standard: '●',
+  double: '○',
+  triple: '△',
+  quadruple: '◇'
+};
+
+const TERMINATION_NAMES: Record<GameTermination, string> = {
+  igo: 'Igo',
+  wego: 'Wego',
+  timeout: 'Timeout',
+  resignation: 'Resignation',
+  draw: 'Draw',
+  disconnection: 'Disconnection'
+};
+
+// Written first, in this order; any other tags follow
+const TAG_ORDER = ['Event', 'Date', 'White', 'Black', 'Mode', 'TimeControl', 'Position'];
+
+const RESULT_TOKENS: Record<string, Color | 'draw' | null> = {
+  '1-0': 'white',
+  '0-1': 'black',
+  '1/2-1/2': 'draw',
+  '*': null
+};
+
+const isResultToken = (token: string): boolean => Object.prototype.hasOwnProperty.call(RESULT_TOKENS, token);
+
+const resultToken = (result: Color | 'draw' | null): string =>
+  result === 'white' ? '1-0' : result === 'black' ? '0-1' : result === 'draw' ? '1/2-1/2' : '*';
+
+const escapeTag = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// MGN date for a Date, e.g. 2025.06.14
+export const mgnDate = (date: Date): string =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+const startOf = (tags: { [name: string]: string }): PositionSetup | null =>
+  tags.Position ? decodePosition(tags.Position) : null;
+
+// Throws if the moves aren't a legal game
+export const writeMgn = (game: GameRecord): string => {
+  const start = startOf(game.tags);
+  const blackFirst = !!start && start.position.toMove === 'black';
+  const tags: { [name: string]: string } = { Event: 'Migoyugo Game', ...game.tags };
+  delete tags.Result;
+  delete tags.Termination;
+
+  const names = [
+    ...TAG_ORDER.filter(name => tags[name] !== undefined),
+    ...Object.keys(tags).filter(name => !TAG_ORDER.includes(name))
+  ];
+  const lines = names.map(name => `[${name} "${escapeTag(tags[name])}"]`);
+  lines.push(`[Result "${resultToken(game.result)}"]`);
+  if (game.termination) lines.push(`[Termination "${TERMINATION_NAMES[game.termination]}"]`);
+
+  const tokens: string[] = [];
+  const writeLine = (moves: MgnMove[], from: Position, firstPly: number) => {
+    let position = from;
+    // Black's moves are numbered when they start a line or follow a variation
+    let numberNext = true;
+    moves.forEach((move, index) => {
+      const ply = firstPly + index;
+      const number = start ? moveNumberAfter(start, ply) : Math.floor(ply / 2) + 1;
+      const whiteMoves = (ply + (blackFirst ? 1 : 0)) % 2 === 0;
+      if (whiteMoves) tokens.push(`${number}.`);
+      else if (numberNext) tokens.push(`${number}...`);
+
+      const { yugoType, position: next } = applyMove(position, move.row, move.col);
+      tokens.push(squareName(move) + (yugoType ? YUGO_MARKERS[yugoType] : '') + (move.annotation || ''));
+      if (move.comment) tokens.push(`{${move.comment.replace(/[{}]/g, '')}}`);
+      (move.variations || []).forEach(variation => {
+        tokens.push('(');
+        writeLine(variation, position, ply);
+        tokens.push(')');
+      });
+      numberNext = !!move.variations && move.variations.length > 0;
+      position = next;
+    });
+  };
+  writeLine(game.moves, start ? start.position : createInitialPosition(), 0);
+  tokens.push(resultToken(game.result));
+
+  // Wrap the movetext at 80 columns, with parentheses against what they enclose
+  const movetext: string[] = [];
+  let line = '';
+  tokens.forEach((token, index) => {
+    const joined = token === ')' || tokens[index - 1] === '(';
+    if (line && !joined && line.length + token.length + 1 > 80) {
+      movetext.push(line);
+      line = token;
+    } else {
+      line = line && !joined ? `${line} ${token}` : line + token;
+    }
+  });
+  movetext.push(line);
+
+  return `${lines.join('\n')}\n\n${movetext.join('\n')}\n`;
+};
+
+const TAG_LINE = /^\[([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const MOVE_TOKEN = /^([a-h][1-8])([●○△◇]?)(!!|\?\?|!\?|\?!|!|\?)?$/;
+
+// Parse one game. Throws an Error saying what is wrong for malformed text or illegal moves.
+export const parseMgn = (text: string): ParsedGame => {
+  const tags: { [name: string]: string } = {};
+  const movetextLines: string[] = [];
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const tag = TAG_LINE.exec(line);
+    if (tag && movetextLines.length === 0) {
+      tags[tag[1]] = tag[2].replace(/\\(.)/g, '$1');
+    } else if (line) {
+      movetextLines.push(line);
+    }
+  });
+
+  const moves: MgnMove[] = [];
+  // Yugo marker written on each move, checked once the moves are replayed
+  const markers = new Map<MgnMove, string>();
+  // Lines we are inside, innermost last
+  const open: MgnMove[][] = [moves];
+  let resultFromMoves: Color | 'draw' | null | undefined;
+  const movetext = movetextLines.join(' ');
+  const tokenPattern = /\{([^}]*)\}|[()]|[^\s{}()]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(movetext)) !== null) {
+    const token = match[0];
+    const line = open[open.length - 1];
+    const last = line[line.length - 1];
+    if (match[1] !== undefined) {
+      const comment = match[1].trim();
+      if (!last) throw new Error('A comment must follow a move');
+      last.comment = last.comment ? `${last.comment} ${comment}` : comment;
+    } else if (token === '(') {
+      if (!last) throw new Error('A variation must follow the move it replaces');
+      const variation: MgnMove[] = [];
+      last.variations = [...(last.variations || []), variation];
+      open.push(variation);
+    } else if (token === ')') {
+      if (open.length === 1) throw new Error("Unmatched ')' in the moves");
+      if (line.length === 0) throw new Error('Empty variation');
+      open.pop();
+    } else if (/^\d+\.+$/.test(token)) {
+      continue;
+    } else if (isResultToken(token)) {
+      if (open.length > 1) throw new Error('Result inside a variation');
+      resultFromMoves = RESULT_TOKENS[token];
+    } else {
+      const move = MOVE_TOKEN.exec(token);
+      const square = move && parseSquareName(move[1]);
+      if (!square) throw new Error(`Unexpected '${token}' in the moves`);
+      if (resultFromMoves !== undefined) throw new Error(`Move ${token} comes after the result`);
+      if (move![3]) (square as MgnMove).annotation = move![3] as MoveAnnotation;
+      line.push(square);
+      if (move![2]) markers.set(square, move![2]);
+    }
+  }
+  if (open.length > 1) throw new Error('Unclosed variation in the moves');
+
+  // Replay every line from the position it branches from
+  const start = startOf(tags);
+  const replayLine = (line: MgnMove[], from: Position, firstPly: number): MoveResult[] => {
+    const results: MoveResult[] = [];
+    let position = from;
+    line.forEach((move, index) => {
+      let result: MoveResult;
+      try {
+        result = applyMove(position, move.row, move.col);
+      } catch {
+        throw new Error(`Move ${firstPly + index + 1} (${squareName(move)}) is illegal`);
+      }
+      const marker = result.yugoType ? YUGO_MARKERS[result.yugoType] : '';
+      const written = markers.get(move);
+      if (written && written !== marker) {
+        throw new Error(`Move ${squareName(move)} is marked ${written} but forms ${result.yugoType ? `a ${result.yugoType} Yugo` : 'no Yugo'}`);
+      }
+      (move.variations || []).forEach(variation => replayLine(variation, position, firstPly + index));
+      results.push(result);
+      position = result.position;
+    });
+    return results;
+  };
+  const results = replayLine(moves, start ? start.position : createInitialPosition(), 0);
+
+  if (tags.Result !== undefined && !isResultToken(tags.Result)) throw new Error(`Unknown result '${tags.Result}'`);
+  const result = tags.Result !== undefined ? RESULT_TOKENS[tags.Result] : resultFromMoves;
+  const terminationName = tags.Termination ? tags.Termination.toLowerCase() : null;
+  if (terminationName && !Object.prototype.hasOwnProperty.call(TERMINATION_NAMES, terminationName)) {
+    throw new Error(`Unknown termination '${tags.Termination}'`);
+  }
+
+  delete tags.Result;
+  delete tags.Termination;
+  return {
+    tags,
+    moves,
+    result: result === undefined ? null : result,
+    termination: terminationName as GameTermination | null,
+    start,
+    results,
+    boardHistory: results.map(moveResult => moveResult.position.board as Board)
+  };
+};
+
+// Split a file of games on the tag section that starts each one
+export const parseMgnGames = (text: string): ParsedGame[] =>
+  text
+    .split(/\r?\n(?=\s*\[Event\s)/)
+    .filter(chunk => chunk.trim())
+    .map(parseMgn);
@@ -0,0 +1,45 @@
+import { addMove, deleteVariation, movesTo, promoteVariation, updateMove } from './moveTree';
+
+interface Move {
+  row: number;
+  col: number;
+  comment?: string;
+  variations?: Move[][];
+}
+
+const main: Move[] = [{ row: 0, col: 0 }, { row: 7, col: 7 }, { row: 0, col: 1 }];
+
+test('a different move branches, the same move follows the line', () => {
+  expect(addMove(main, [], 1, { row: 7, col: 7 })).toEqual({ main, ref: [] });
+
+  const branched = addMove(main, [], 1, { row: 6, col: 6 });
+  expect(branched.ref).toEqual([{ index: 1, variation: 0 }]);
+  expect(branched.main[1].variations).toEqual([[{ row: 6, col: 6 }]]);
+  expect(main[1].variations).toBeUndefined();
+  expect(movesTo(branched.main, branched.ref, 2)).toEqual([{ row: 0, col: 0 }, { row: 6, col: 6 }]);
+
+  // Playing it again finds the variation instead of adding another
+  expect(addMove(branched.main, [], 1, { row: 6, col: 6 }).ref).toEqual(branched.ref);
+});
+
+test('promoting swaps a variation with its main line, deleting removes it', () => {
+  const { main: tree, ref } = addMove(main, [], 1, { row: 6, col: 6 });
+
+  const promoted = promoteVariation(tree, ref);
+  expect(promoted.ref).toEqual([]);
+  expect(promoted.main).toEqual([
+    { row: 0, col: 0 },
+    { row: 6, col: 6, variations: [[{ row: 7, col: 7 }, { row: 0, col: 1 }]] }
+  ]);
+
+  expect(deleteVariation(tree, ref)).toEqual({ main, ref: [] });
+});
+
+test('updating a move in a variation leaves the rest of the tree alone', () => {
+  const { main: tree, ref } = addMove(main, [], 1, { row: 6, col: 6 });
+  const updated = updateMove(tree, ref, 1, move => ({ ...move, comment: 'better' }));
+  expect(updated[1].variations![0][0]).toEqual({ row: 6, col: 6, comment: 'better' });
+  expect(updated[0]).toBe(tree[0]);
+  expect(tree[1].variations![0][0].comment).toBeUndefined();
+  expect(() => updateMove(tree, ref, 0, move => move)).toThrow('not in this line');
+});
@@ -0,0 +1,136 @@
+// Game records with side variations, PGN style: a move can carry variations,
+// each an alternative line played instead of it from the same position. The
+// main line is a plain array of moves, so code that only follows the game
+// itself never has to know about the tree.
+//
+// A line is found by the steps that lead to it from the main line: at
+// `index` in the current line, take variation number `variation`. Plies count
+// from the start of the game, so a position in a variation is (line, ply).
+// Updates never mutate - they copy the moves on the way to the change.
+
+import { Square } from './rules';
+
+export interface TreeMove<T> extends Square {
+  variations?: T[][];
+}
+
+export interface VariationStep {
+  index: number;
+  variation: number;
+}
+
+export type LineRef = VariationStep[];
+
+export interface ResolvedLine<T> {
+  // Moves played before the line starts
+  prefix: T[];
+  line: T[];
+}
+
+const sameSquare = (a: Square, b: Square): boolean => a.row === b.row && a.col === b.col;
+
+export const sameLine = (a: LineRef, b: LineRef): boolean =>
+  a.length === b.length && a.every((step, i) => step.index === b[i].index && step.variation === b[i].variation);
+
+// Throws if the reference doesn't lead to a line
+export const resolveLine = <T extends TreeMove<T>>(main: T[], ref: LineRef): ResolvedLine<T> => {
+  let prefix: T[] = [];
+  let line = main;
+  for (const { index, variation } of ref) {
+    const move = line[index];
+    const next = move && move.variations && move.variations[variation];
+    if (!next) throw new Error('No such variation');
+    prefix = [...prefix, ...line.slice(0, index)];
+    line = next;
+  }
+  return { prefix, line };
+};
+
+// Moves from the start of the game to a ply in the line
+export const movesTo = <T extends TreeMove<T>>(main: T[], ref: LineRef, ply: number): T[] => {
+  const { prefix, line } = resolveLine(main, ref);
+  return [...prefix, ...line.slice(0, ply - prefix.length)];
+};
+
+const updateLine = <T extends TreeMove<T>>(line: T[], ref: LineRef, update: (line: T[]) => T[]): T[] => {
+  if (ref.length === 0) return update(line);
+  const [{ index, variation }, ...rest] = ref;
+  const move = line[index];
+  const variations = [...move.variations!];
+  variations[variation] = updateLine(variations[variation], rest, update);
+  return [...line.slice(0, index), { ...move, variations }, ...line.slice(index + 1)];
+};
+
+// Replace the move played at a ply of a line, keeping the rest of the tree
+export const updateMove = <T extends TreeMove<T>>(main: T[], ref: LineRef, ply: number, update: (move: T) => T): T[] => {
+  const { prefix, line } = resolveLine(main, ref);
+  const index = ply - prefix.length;
+  if (index < 0 || index >= line.length) throw new Error(`Ply ${ply} is not in this line`);
+  return updateLine(main, ref, current => [...current.slice(0, index), update(current[index]), ...current.slice(index + 1)]);
+};
+
+// Play `move` at a ply of a line. The same move as the one already there, or
+// the first move of an existing variation, is followed rather than added again.
+// Returns the new tree and the line the move is in.
+export const addMove = <T extends TreeMove<T>>(main: T[], ref: LineRef, ply: number, move: T): { main: T[]; ref: LineRef } => {
+  const { prefix, line } = resolveLine(main, ref);
+  const index = ply - prefix.length;
+  if (index < 0 || index > line.length) throw new Error(`Ply ${ply} is not in this line`);
+
+  if (index === line.length) {
+    return { main: updateLine(main, ref, current => [...current, move]), ref };
+  }
+  const existing = line[index];
+  if (sameSquare(existing, move)) return { main, ref };
+
+  const variations = existing.variations || [];
+  const found = variations.findIndex(variation => sameSquare(variation[0], move));
+  if (found >= 0) return { main, ref: [...ref, { index, variation: found }] };
+
+  return {
+    main: updateLine(main, ref, current => [
+      ...current.slice(0, index),
+      { ...existing, variations: [...variations, [move]] },
+      ...current.slice(index + 1)
+    ]),
+    ref: [...ref, { index, variation: variations.length }]
+  };
+};
+
+// Remove a variation and everything in it. Returns the tree and the line it branched from.
+export const deleteVariation = <T extends TreeMove<T>>(main: T[], ref: LineRef): { main: T[]; ref: LineRef } => {
+  if (ref.length === 0) throw new Error('The main line cannot be deleted');
+  const parentRef = ref.slice(0, -1);
+  const { index, variation } = ref[ref.length - 1];
+  return {
+    main: updateLine(main, parentRef, parent => {
+      const move = parent[index];
+      const variations = move.variations!.filter((_, i) => i !== variation);
+      return [
+        ...parent.slice(0, index),
+        { ...move, variations: variations.length > 0 ? variations : undefined },
+        ...parent.slice(index + 1)
+      ];
+    }),
+    ref: parentRef
+  };
+};
+
+// Swap a variation with the line it branches from; the rest of that line
+// becomes the first variation. Returns the tree and the line the moves are now in.
+export const promoteVariation = <T extends TreeMove<T>>(main: T[], ref: LineRef): { main: T[]; ref: LineRef } => {
+  if (ref.length === 0) throw new Error('The main line cannot be promoted');
+  const parentRef = ref.slice(0, -1);
+  const { index, variation } = ref[ref.length - 1];
+  return {
+    main: updateLine(main, parentRef, parent => {
+      const move = parent[index];
+      const siblings = move.variations!;
+      const [first, ...rest] = siblings[variation];
+      const demoted = [{ ...move, variations: undefined }, ...parent.slice(index + 1)];
+      const variations = [demoted, ...siblings.filter((_, i) => i !== variation), ...(first.variations || [])];
+      return [...parent.slice(0, index), { ...first, variations }, ...rest];
+    }),
+    ref: parentRef
+  };
+};
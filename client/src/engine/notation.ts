@@ -0,0 +1,13 @@
+// Square names as shown on the board: file a-h left to right, rank 8 at the top (a8 is row 0, col 0)
+
+import { BOARD_SIZE, Square } from './rules';
+
+export const squareName = ({ row, col }: Square): string =>
+  String.fromCharCode(97 + col) + (BOARD_SIZE - row);
+
+// Square for a name like 'e4', or null if it isn't one
+export const parseSquareName = (name: string): Square | null => {
+  const match = /^([a-h])([1-8])$/.exec(name.trim().toLowerCase());
+  if (!match) return null;
+  return { row: BOARD_SIZE - Number(match[2]), col: match[1].charCodeAt(0) - 97 };
+};
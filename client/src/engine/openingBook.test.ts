@@ -0,0 +1,55 @@
+import { OpeningBook, addGameToBook } from './openingBook';
+import openingBookData from './openingBook.json';
+import { createEmptyBoard, createInitialPosition, replayMoves } from './rules';
+
+test('a move is found again in every rotation and reflection of its position', () => {
+  const book = new OpeningBook();
+  const board = createEmptyBoard();
+  board[1][2] = { color: 'white', isNode: false };
+  book.add(board, 'black', { row: 2, col: 2 });
+
+  // Same position turned a quarter: (row, col) -> (col, 7 - row)
+  const rotated = createEmptyBoard();
+  rotated[2][6] = { color: 'white', isNode: false };
+  expect(book.lookup(rotated, 'black')).toEqual([{ row: 2, col: 5, weight: 1 }]);
+  expect(book.lookup(rotated, 'white')).toBeNull();
+});
+
+test('games add weight by result and survive a JSON round trip', () => {
+  const book = new OpeningBook();
+  addGameToBook(book, { moves: [{ row: 3, col: 3 }, { row: 4, col: 4 }], result: 'white' }, 2);
+  addGameToBook(book, { moves: [{ row: 4, col: 4 }], result: 'draw' }, 2);
+
+  const copy = OpeningBook.fromJSON(JSON.parse(JSON.stringify(book)));
+  const total = copy.lookup(createEmptyBoard(), 'white')!.reduce((sum, move) => sum + move.weight, 0);
+  expect(total).toBe(5);
+  expect(() => OpeningBook.fromJSON({ ...book.toJSON(), version: 99 })).toThrow('Unsupported opening book version');
+});
+
+// The lines the book had when it was written by hand in ai.ts. Lines that are
+// rotations or reflections of each other share a position in the book.
+const HAND_WRITTEN_LINES: { [line: string]: string[] } = {
+  '': ['3,3', '4,4', '3,4', '4,3', '2,3', '3,2', '5,4', '4,5'],
+  '3,3': ['4,4', '3,4', '4,3', '2,2', '5,5'],
+  '4,4': ['3,3', '3,4', '4,3', '2,2', '5,5'],
+  '3,4': ['4,3', '3,3', '4,4', '2,5', '5,2'],
+  '4,3': ['3,4', '3,3', '4,4', '2,5', '5,2'],
+  '3,3;4,4': ['2,2', '5,5', '3,4', '4,3'],
+  '4,4;3,3': ['2,2', '5,5', '3,4', '4,3'],
+  '2,2': ['3,3', '4,4', '5,5'],
+  '5,5': ['4,4', '3,3', '2,2']
+};
+
+test('the book keeps every hand-written line', () => {
+  const book = OpeningBook.fromJSON(openingBookData);
+  const toSquare = (move: string) => {
+    const [row, col] = move.split(',').map(Number);
+    return { row, col };
+  };
+  Object.entries(HAND_WRITTEN_LINES).forEach(([line, replies]) => {
+    const results = replayMoves(line ? line.split(';').map(toSquare) : []);
+    const { board, toMove } = results.length > 0 ? results[results.length - 1].position : createInitialPosition();
+    const found = (book.lookup(board, toMove) || []).map(({ row, col }) => `${row},${col}`);
+    expect(found).toEqual(expect.arrayContaining(replies));
+  });
+});
@@ -0,0 +1,192 @@
+// Opening book
+// Positions are stored under the Zobrist key (see zobrist.ts) of the board in
+// its canonical orientation - the smallest key over the board's 8 symmetries -
+// so a line and its rotations and reflections share one entry. Moves are
+// 'row,col' in that orientation, each with a weight.
+
+import { BOARD_SIZE, Color, Position, ReadonlyBoard, Square, applyMove, createEmptyBoard, createInitialPosition, isValidMove } from './rules';
+import { hashPosition, keyToString } from './zobrist';
+
+export const OPENING_BOOK_FORMAT = 'migoyugo-opening-book';
+// Version 1 keyed positions by their position notation
+export const OPENING_BOOK_VERSION = 2;
+
+export interface OpeningBookFile {
+  format: typeof OPENING_BOOK_FORMAT;
+  version: number;
+  // Position key -> { 'row,col': weight }
+  positions: { [key: string]: { [move: string]: number } };
+}
+
+export interface WeightedMove extends Square {
+  weight: number;
+}
+
+type Transform = (row: number, col: number) => [number, number];
+
+const LAST = BOARD_SIZE - 1;
+
+// The 8 symmetries of the square board
+const TRANSFORMS: Transform[] = [
+  (row, col) => [row, col],
+  (row, col) => [col, LAST - row],
+  (row, col) => [LAST - row, LAST - col],
+  (row, col) => [LAST - col, row],
+  (row, col) => [row, LAST - col],
+  (row, col) => [LAST - row, col],
+  (row, col) => [col, row],
+  (row, col) => [LAST - col, LAST - row]
+];
+// Index of the transform that undoes each one
+const INVERSES = [0, 3, 2, 1, 4, 5, 6, 7];
+
+// Zobrist key of the position after applying the transform to the board
+export const positionKey = (board: ReadonlyBoard, toMove: Color, transform: Transform = TRANSFORMS[0]): string => {
+  const transformed = createEmptyBoard();
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const [r, c] = transform(row, col);
+      transformed[r][c] = board[row][col];
+    }
+  }
+  return keyToString(hashPosition(transformed, toMove));
+};
+
+interface Canonical {
+  key: string;
+  // Every transform that takes the board to the canonical orientation
+  transforms: number[];
+}
+
+const canonicalize = (board: ReadonlyBoard, toMove: Color): Canonical => {
+  let best: Canonical | null = null;
+  TRANSFORMS.forEach((transform, index) => {
+    const key = positionKey(board, toMove, transform);
+    if (!best || key < best.key) {
+      best = { key, transforms: [index] };
+    } else if (key === best.key) {
+      best.transforms.push(index);
+    }
+  });
+  return best!;
+};
+
+const moveToString = (row: number, col: number): string => `${row},${col}`;
+
+const parseMove = (move: string): Square => {
+  const [row, col] = move.split(',').map(Number);
+  return { row, col };
+};
+
+export class OpeningBook {
+  private positions = new Map<string, Map<string, number>>();
+
+  static fromJSON(data: unknown): OpeningBook {
+    const file = data as Partial<OpeningBookFile> | null;
+    if (!file || file.format !== OPENING_BOOK_FORMAT) {
+      throw new Error('Not an opening book file');
+    }
+    if (file.version !== OPENING_BOOK_VERSION) {
+      throw new Error(`Unsupported opening book version ${file.version} (expected ${OPENING_BOOK_VERSION})`);
+    }
+
+    const book = new OpeningBook();
+    Object.entries(file.positions || {}).forEach(([key, moves]) => {
+      book.positions.set(key, new Map(Object.entries(moves)));
+    });
+    return book;
+  }
+
+  toJSON(): OpeningBookFile {
+    const positions: OpeningBookFile['positions'] = {};
+    Array.from(this.positions.keys()).sort().forEach(key => {
+      const moves = Array.from(this.positions.get(key)!.entries()).sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+      positions[key] = Object.fromEntries(moves);
+    });
+    return { format: OPENING_BOOK_FORMAT, version: OPENING_BOOK_VERSION, positions };
+  }
+
+  get size(): number {
+    return this.positions.size;
+  }
+
+  // Add weight to a move. On a symmetric board, equivalent moves share one entry.
+  add(board: ReadonlyBoard, toMove: Color, move: Square, weight: number = 1): void {
+    const { key, transforms } = canonicalize(board, toMove);
+    const stored = transforms
+      .map(index => moveToString(...TRANSFORMS[index](move.row, move.col)))
+      .sort()[0];
+
+    let moves = this.positions.get(key);
+    if (!moves) {
+      moves = new Map();
+      this.positions.set(key, moves);
+    }
+    moves.set(stored, (moves.get(stored) || 0) + weight);
+  }
+
+  // Legal book moves for this position in its own orientation, or null when out of book
+  lookup(board: ReadonlyBoard, toMove: Color): WeightedMove[] | null {
+    const { key, transforms } = canonicalize(board, toMove);
+    const moves = this.positions.get(key);
+    if (!moves) return null;
+
+    const found: WeightedMove[] = [];
+    moves.forEach((weight, move) => {
+      const { row, col } = parseMove(move);
+      // Spread each entry over the equivalent squares of a symmetric board
+      const squares = new Set(transforms.map(index => moveToString(...TRANSFORMS[INVERSES[index]](row, col))));
+      squares.forEach(square => {
+        const { row: r, col: c } = parseMove(square);
+        if (isValidMove(board, r, c, toMove)) found.push({ row: r, col: c, weight: weight / squares.size });
+      });
+    });
+    return found.length > 0 ? found : null;
+  }
+
+  // Drop moves lighter than minWeight and positions left empty
+  prune(minWeight: number): void {
+    this.positions.forEach((moves, key) => {
+      moves.forEach((weight, move) => {
+        if (weight < minWeight) moves.delete(move);
+      });
+      if (moves.size === 0) this.positions.delete(key);
+    });
+  }
+}
+
+export interface BookGame {
+  moves: Square[];
+  // Unknown results count like draws
+  result?: Color | 'draw' | null;
+}
+
+// Weight added per move, by how the game went for the player who made it
+const RESULT_WEIGHTS = { win: 3, draw: 2, loss: 1 };
+
+// Add the first `maxPlies` moves of a game; throws on an illegal move
+export const addGameToBook = (book: OpeningBook, game: BookGame, maxPlies: number = 12): void => {
+  let position: Position = createInitialPosition();
+  for (const { row, col } of game.moves.slice(0, maxPlies)) {
+    const player = position.toMove;
+    const outcome = !game.result || game.result === 'draw' ? 'draw' : game.result === player ? 'win' : 'loss';
+    const result = applyMove(position, row, col);
+    book.add(position.board, player, { row, col }, RESULT_WEIGHTS[outcome]);
+    if (result.gameOver) break;
+    position = result.position;
+  }
+};
+
+// Pick a move with probability proportional to weight^(1 / temperature).
+// Low temperatures stick to the main lines, high ones play the sidelines too.
+export const sampleBookMove = (moves: WeightedMove[], temperature: number, random: () => number = Math.random): Square => {
+  const scaled = moves.map(move => Math.pow(move.weight, 1 / temperature));
+  const total = scaled.reduce((sum, weight) => sum + weight, 0);
+  let pick = random() * total;
+  for (let i = 0; i < moves.length; i++) {
+    pick -= scaled[i];
+    if (pick <= 0) return { row: moves[i].row, col: moves[i].col };
+  }
+  const last = moves[moves.length - 1];
+  return { row: last.row, col: last.col };
+};
@@ -0,0 +1,35 @@
+import { decodePosition, encodePosition, moveNumberAfter } from './positionNotation';
+import { replayMoves } from './rules';
+
+test('a position with Migos and Yugos survives encoding', () => {
+  const moves = [
+    { row: 0, col: 0 }, { row: 7, col: 7 },
+    { row: 0, col: 1 }, { row: 7, col: 6 },
+    { row: 0, col: 2 }, { row: 7, col: 5 },
+    { row: 0, col: 3 }
+  ];
+  const { position } = replayMoves(moves)[moves.length - 1];
+  const text = encodePosition(position, 4);
+  expect(text).toBe('3W4/8/8/8/8/8/8/5bbb b 4');
+
+  const setup = decodePosition(text);
+  expect(setup.moveNumber).toBe(4);
+  expect(setup.position.toMove).toBe('black');
+  expect(setup.position.board).toEqual(position.board.map(row => row.map(cell => cell || null)));
+  expect(decodePosition('W+++7/8/8/8/8/8/8/8 w 1').position.board[0][0]).toEqual({ color: 'white', isNode: true, nodeType: 'quadruple' });
+});
+
+test('malformed position strings are rejected', () => {
+  expect(() => decodePosition('8/8/8/8/8/8/8 w 1')).toThrow('Expected 8 ranks');
+  expect(() => decodePosition('9/8/8/8/8/8/8/8 w 1')).toThrow('unknown character');
+  expect(() => decodePosition('7/8/8/8/8/8/8/8 w 1')).toThrow('has 7 squares');
+  expect(() => decodePosition('8/8/8/8/8/8/8/8 x 1')).toThrow('Side to move');
+  expect(() => decodePosition('8/8/8/8/8/8/8/8 w 0')).toThrow('Bad move number');
+});
+
+test('move numbers go up after Black moves', () => {
+  const { position } = decodePosition('8/8/8/8/8/8/8/8 b 5');
+  expect(moveNumberAfter({ position, moveNumber: 5 }, 0)).toBe(5);
+  expect(moveNumberAfter({ position, moveNumber: 5 }, 1)).toBe(6);
+  expect(moveNumberAfter({ position, moveNumber: 5 }, 2)).toBe(6);
+});
@@ -0,0 +1,85 @@
+// Compact position notation, FEN style:
+//
+//   8/8/3w4/2bW+3/8/8/8/8 b 3
+//
+// Ranks from 8 down to 1 separated by '/', each read from file a to h. Digits
+// count empty squares, w/b are Migos and W/B are Yugos with a '+' per value
+// above 1 (W standard, W+ double, W++ triple, W+++ quadruple). Then the side to
+// move and the move number, which starts at 1 and goes up after Black moves.
+
+import { BOARD_SIZE, Board, Cell, Color, Position, ReadonlyBoard, YugoType, yugoValue } from './rules';
+
+export interface PositionSetup {
+  position: Position;
+  moveNumber: number;
+}
+
+const YUGO_TYPES: YugoType[] = ['standard', 'double', 'triple', 'quadruple'];
+
+export const INITIAL_POSITION_STRING = '8/8/8/8/8/8/8/8 w 1';
+
+const cellCode = (cell: Readonly<Cell>): string => {
+  const letter = cell.color === 'white' ? 'w' : 'b';
+  return cell.isNode ? letter.toUpperCase() + '+'.repeat(yugoValue(cell) - 1) : letter;
+};
+
+// Just the board part of the notation
+export const encodeBoard = (board: ReadonlyBoard): string =>
+  board.map(row => {
+    let text = '';
+    let empty = 0;
+    for (const cell of row) {
+      if (!cell || !cell.color) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) text += empty;
+      text += cellCode(cell);
+      empty = 0;
+    }
+    return empty > 0 ? text + empty : text;
+  }).join('/');
+
+export const encodePosition = (position: Position, moveNumber: number = 1): string =>
+  `${encodeBoard(position.board)} ${position.toMove === 'white' ? 'w' : 'b'} ${moveNumber}`;
+
+const CELL_TOKEN = /[1-8]|[wb]|[WB]\+{0,3}/g;
+
+const decodeRow = (text: string, rank: number): (Cell | null)[] => {
+  const cells: (Cell | null)[] = [];
+  const tokens = text.match(CELL_TOKEN) || [];
+  if (tokens.join('') !== text) throw new Error(`Rank ${rank} '${text}' has an unknown character`);
+  tokens.forEach(token => {
+    if (/^\d$/.test(token)) {
+      for (let i = 0; i < Number(token); i++) cells.push(null);
+      return;
+    }
+    const color: Color = token[0].toLowerCase() === 'w' ? 'white' : 'black';
+    cells.push(token[0] === token[0].toUpperCase()
+      ? { color, isNode: true, nodeType: YUGO_TYPES[token.length - 1] }
+      : { color, isNode: false });
+  });
+  if (cells.length !== BOARD_SIZE) throw new Error(`Rank ${rank} '${text}' has ${cells.length} squares, not ${BOARD_SIZE}`);
+  return cells;
+};
+
+// Throws an Error saying what is wrong if the text isn't a position string.
+// Only the notation is checked, not whether the position could arise in a game.
+export const decodePosition = (text: string): PositionSetup => {
+  const [boardText, side = 'w', moveText = '1', ...extra] = text.trim().split(/\s+/);
+  if (!boardText || extra.length > 0) throw new Error('Expected a board, side to move and move number');
+
+  const rows = boardText.split('/');
+  if (rows.length !== BOARD_SIZE) throw new Error(`Expected ${BOARD_SIZE} ranks, found ${rows.length}`);
+  const board: Board = rows.map((row, index) => decodeRow(row, BOARD_SIZE - index));
+
+  if (side !== 'w' && side !== 'b') throw new Error(`Side to move must be w or b, not '${side}'`);
+  const moveNumber = Number(moveText);
+  if (!Number.isInteger(moveNumber) || moveNumber < 1) throw new Error(`Bad move number '${moveText}'`);
+
+  return { position: { board, toMove: side === 'w' ? 'white' : 'black' }, moveNumber };
+};
+
+// Move number after `plies` more moves from a setup
+export const moveNumberAfter = ({ position, moveNumber }: PositionSetup, plies: number): number =>
+  moveNumber + Math.floor((plies + (position.toMove === 'black' ? 1 : 0)) / 2);
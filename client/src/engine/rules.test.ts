@@ -0,0 +1,31 @@
+import { applyMove, createInitialPosition, isValidMove, replayMoves } from './rules';
+
+test('completing a line of 4 forms a Yugo and removes the other Migos', () => {
+  const results = replayMoves([
+    { row: 0, col: 0 }, { row: 7, col: 7 },
+    { row: 0, col: 1 }, { row: 7, col: 6 },
+    { row: 0, col: 2 }, { row: 7, col: 5 },
+    { row: 0, col: 3 }
+  ]);
+  const last = results[results.length - 1];
+
+  expect(last.yugoType).toBe('standard');
+  expect(last.removedCells).toHaveLength(3);
+  expect(last.position.board[0][3]).toEqual({ color: 'white', isNode: true, nodeType: 'standard' });
+  expect(last.position.board[0][0]).toBeNull();
+  expect(last.scores).toEqual({ white: 1, black: 0 });
+  expect(last.position.toMove).toBe('black');
+});
+
+test('applyMove never mutates the input position', () => {
+  const start = createInitialPosition();
+  applyMove(start, 3, 3);
+  expect(start.board[3][3]).toBeNull();
+});
+
+test('lines longer than 4 are illegal', () => {
+  const board = createInitialPosition().board.map(row => [...row]);
+  [0, 1, 2, 4].forEach(col => { board[0][col] = { color: 'white', isNode: false }; });
+  expect(isValidMove(board, 0, 3, 'white')).toBe(false);
+  expect(isValidMove(board, 0, 3, 'black')).toBe(true);
+});
@@ -0,0 +1,325 @@
+// Migoyugo rules engine
+// Shared by the React client and the Socket.IO server (compiled to dist/engine
+// with tsconfig.engine.json), so both sides always agree on what a move does.
+
+export type Color = 'white' | 'black';
+export type YugoType = 'standard' | 'double' | 'triple' | 'quadruple';
+
+export interface Cell {
+  color: Color | null;
+  isNode: boolean;
+  nodeType?: YugoType;
+}
+
+export interface Square {
+  row: number;
+  col: number;
+}
+
+export type Board = (Cell | null)[][];
+export type ReadonlyBoard = ReadonlyArray<ReadonlyArray<Readonly<Cell> | null>>;
+
+export interface Scores {
+  white: number;
+  black: number;
+}
+
+// A position is never mutated - applyMove always returns a fresh one
+export interface Position {
+  readonly board: ReadonlyBoard;
+  readonly toMove: Color;
+}
+
+export interface WegoOutcome {
+  // Player left without a legal move
+  stuckPlayer: Color;
+  winner: Color | 'draw';
+}
+
+export interface MoveResult {
+  position: Position;
+  move: Square & { player: Color };
+  // Number of lines of 4 completed by the move (0 when no Yugo formed)
+  vectors: number;
+  yugoType: YugoType | null;
+  removedCells: Square[];
+  igoLine: Square[] | null;
+  wego: WegoOutcome | null;
+  scores: Scores;
+  gameOver: boolean;
+  winner: Color | 'draw' | null;
+}
+
+export const BOARD_SIZE = 8;
+
+const ALL_DIRECTIONS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1],           [0, 1],
+  [1, -1],  [1, 0],  [1, 1]
+];
+
+const LINE_DIRECTIONS = [
+  [-1, 0],  // up
+  [-1, 1],  // up-right diagonal
+  [0, 1],   // right
+  [1, 1]    // down-right diagonal
+];
+
+const YUGO_VALUES: Record<YugoType, number> = {
+  standard: 1,
+  double: 2,
+  triple: 3,
+  quadruple: 4
+};
+
+const YUGO_TYPES_BY_VECTORS: YugoType[] = ['standard', 'double', 'triple', 'quadruple'];
+
+export const opponentOf = (color: Color): Color => (color === 'white' ? 'black' : 'white');
+
+const inBounds = (row: number, col: number): boolean =>
+  row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE;
+
+export const createEmptyBoard = (): Board =>
+  Array(BOARD_SIZE).fill(null).map(() => Array(BOARD_SIZE).fill(null));
+
+export const createInitialPosition = (): Position => ({
+  board: createEmptyBoard(),
+  toMove: 'white'
+});
+
+export const cloneBoard = (board: ReadonlyBoard): Board =>
+  board.map(row => row.map(cell => (cell ? { ...cell } : null)));
+
+// Yugo type for a move that completes the given number of lines
+export const yugoTypeForVectors = (vectors: number): YugoType | null =>
+  vectors > 0 ? YUGO_TYPES_BY_VECTORS[Math.min(vectors, 4) - 1] : null;
+
+export const yugoValue = (cell: Readonly<Cell>): number =>
+  YUGO_VALUES[cell.nodeType || 'standard'];
+
+export const wouldCreateLineTooLong = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): boolean => {
+  for (const [dr, dc] of ALL_DIRECTIONS) {
+    let count = 1;
+
+    // Count in positive direction
+    let r = row + dr, c = col + dc;
+    while (inBounds(r, c) && board[r][c]?.color === playerColor) {
+      count++;
+      r += dr;
+      c += dc;
+    }
+
+    // Count in negative direction
+    r = row - dr;
+    c = col - dc;
+    while (inBounds(r, c) && board[r][c]?.color === playerColor) {
+      count++;
+      r -= dr;
+      c -= dc;
+    }
+
+    if (count > 4) return true;
+  }
+
+  return false;
+};
+
+export const isValidMove = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): boolean => {
+  if (!inBounds(row, col)) return false;
+  if (board[row][col] !== null) return false;
+  return !wouldCreateLineTooLong(board, row, col, playerColor);
+};
+
+// Lines of exactly 4 pieces of playerColor running through (row, col)
+export const checkForVectors = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): Square[][] => {
+  const vectors: Square[][] = [];
+
+  for (const [dr, dc] of LINE_DIRECTIONS) {
+    const line: Square[] = [{ row, col }];
+
+    // Collect in positive direction
+    let r = row + dr, c = col + dc;
+    while (inBounds(r, c) && board[r][c]?.color === playerColor) {
+      line.push({ row: r, col: c });
+      r += dr;
+      c += dc;
+    }
+
+    // Collect in negative direction
+    r = row - dr;
+    c = col - dc;
+    while (inBounds(r, c) && board[r][c]?.color === playerColor) {
+      line.unshift({ row: r, col: c });
+      r -= dr;
+      c -= dc;
+    }
+
+    if (line.length === 4) {
+      vectors.push(line);
+    }
+  }
+
+  return vectors;
+};
+
+// Line of exactly 4 Yugos of playerColor running through (row, col), if any
+export const checkForNexus = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): Square[] | null => {
+  for (const [dr, dc] of ALL_DIRECTIONS) {
+    const line: Square[] = [{ row, col }];
+
+    // Collect in positive direction
+    let r = row + dr, c = col + dc;
+    while (inBounds(r, c) && board[r][c]?.isNode && board[r][c]?.color === playerColor) {
+      line.push({ row: r, col: c });
+      r += dr;
+      c += dc;
+    }
+
+    // Collect in negative direction
+    r = row - dr;
+    c = col - dc;
+    while (inBounds(r, c) && board[r][c]?.isNode && board[r][c]?.color === playerColor) {
+      line.unshift({ row: r, col: c });
+      r -= dr;
+      c -= dc;
+    }
+
+    if (line.length === 4) {
+      return line;
+    }
+  }
+
+  return null;
+};
+
+export const getAllValidMoves = (board: ReadonlyBoard, playerColor: Color): Square[] => {
+  const moves: Square[] = [];
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (isValidMove(board, row, col, playerColor)) {
+        moves.push({ row, col });
+      }
+    }
+  }
+  return moves;
+};
+
+export const hasLegalMoves = (board: ReadonlyBoard, playerColor: Color): boolean => {
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      if (isValidMove(board, row, col, playerColor)) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+// Yugo score for playerColor - each Yugo counts by its type (double = 2, ...)
+export const countNodes = (board: ReadonlyBoard, playerColor: Color): number => {
+  let count = 0;
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const cell = board[row][col];
+      if (cell && cell.isNode && cell.color === playerColor) {
+        count += yugoValue(cell);
+      }
+    }
+  }
+  return count;
+};
+
+export const getScores = (board: ReadonlyBoard): Scores => ({
+  white: countNodes(board, 'white'),
+  black: countNodes(board, 'black')
+});
+
+export const wegoWinner = (scores: Scores): Color | 'draw' => {
+  if (scores.white > scores.black) return 'white';
+  if (scores.black > scores.white) return 'black';
+  return 'draw';
+};
+
+// Place a Migo and resolve Yugo formation on a copy of the board.
+// Cheaper than applyMove when only the resulting board is needed (AI search).
+export const playMove = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): Board => {
+  return placeMigo(board, row, col, playerColor).board;
+};
+
+export interface PlacedMigo {
+  board: Board;
+  vectors: number;
+  yugoType: YugoType | null;
+  removedCells: Square[];
+}
+
+// playMove plus what changed on the board (used for incremental hashing)
+export const placeMigo = (board: ReadonlyBoard, row: number, col: number, playerColor: Color): PlacedMigo => {
+  const newBoard = board.map(r => [...r]) as Board;
+  newBoard[row][col] = { color: playerColor, isNode: false };
+
+  const vectors = checkForVectors(newBoard, row, col, playerColor);
+  const removedCells: Square[] = [];
+
+  // Remove Migos from the completed lines (Yugos and the new placement stay)
+  vectors.forEach(vector => {
+    vector.forEach(cell => {
+      const existing = newBoard[cell.row][cell.col];
+      if (!(cell.row === row && cell.col === col) && existing && !existing.isNode) {
+        removedCells.push({ row: cell.row, col: cell.col });
+        newBoard[cell.row][cell.col] = null;
+      }
+    });
+  });
+
+  const yugoType = yugoTypeForVectors(vectors.length);
+  if (yugoType) {
+    newBoard[row][col] = { color: playerColor, isNode: true, nodeType: yugoType };
+  }
+
+  return { board: newBoard, vectors: vectors.length, yugoType, removedCells };
+};
+
+// Play the side to move at (row, col) and report everything the move caused.
+// Throws if the move is illegal in the given position.
+export const applyMove = (position: Position, row: number, col: number): MoveResult => {
+  const player = position.toMove;
+  if (!isValidMove(position.board, row, col, player)) {
+    throw new Error(`Illegal move for ${player} at ${row},${col}`);
+  }
+
+  const { board, vectors, yugoType, removedCells } = placeMigo(position.board, row, col, player);
+  const scores = getScores(board);
+  const next = opponentOf(player);
+
+  const igoLine = checkForNexus(board, row, col, player);
+  let wego: WegoOutcome | null = null;
+  if (!igoLine && !hasLegalMoves(board, next)) {
+    wego = { stuckPlayer: next, winner: wegoWinner(scores) };
+  }
+
+  return {
+    position: { board, toMove: next },
+    move: { row, col, player },
+    vectors,
+    yugoType,
+    removedCells,
+    igoLine,
+    wego,
+    scores,
+    gameOver: !!igoLine || !!wego,
+    winner: igoLine ? player : wego ? wego.winner : null
+  };
+};
+
+// Replay a move list from the empty board, returning every position along the way
+export const replayMoves = (moves: ReadonlyArray<Square>, start: Position = createInitialPosition()): MoveResult[] => {
+  const results: MoveResult[] = [];
+  let position = start;
+  for (const { row, col } of moves) {
+    const result = applyMove(position, row, col);
+    results.push(result);
+    position = result.position;
+  }
+  return results;
+};
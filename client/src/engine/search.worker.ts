@@ -0,0 +1,81 @@
+/* eslint-disable no-restricted-globals */
+// Runs engine searches off the main thread so the board and clocks stay responsive
+
+import { TranspositionTable, getAIMove, globalTransTable, iterativeDeepening } from './ai';
+import { analyzePosition } from './analysis';
+import { reviewGame } from './gameReport';
+import { SearchRequest, SearchResponse, StartAnalysisMessage, StartReviewMessage, StartSearchMessage } from './searchProtocol';
+
+const post = (message: SearchResponse) => {
+  (self as unknown as Worker).postMessage(message);
+};
+
+// Id of the search currently allowed to report back
+let activeSearchId: number | null = null;
+
+// Give queued cancel messages a chance to run
+const yieldToMessages = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const runSearch = async (request: StartSearchMessage) => {
+  const { id, board, color, engine, maxTimeMs, maxDepth } = request;
+
+  if (engine !== 'ai-4') {
+    const move = getAIMove(board, engine, color, maxTimeMs);
+    if (activeSearchId === id) post({ type: 'result', id, move });
+    return;
+  }
+
+  const search = iterativeDeepening(board, maxTimeMs, color, globalTransTable, maxDepth);
+  let step = search.next();
+  while (!step.done) {
+    post({ type: 'progress', id, ...step.value });
+    await yieldToMessages();
+    if (activeSearchId !== id) return;
+    step = search.next();
+  }
+  post({ type: 'result', id, move: step.value });
+};
+
+// Analysis keeps its own table so it doesn't crowd out the game search
+const analysisTransTable = new TranspositionTable();
+
+const runAnalysis = async (request: StartAnalysisMessage) => {
+  const { id, board, color, maxTimeMs, maxDepth, lines } = request;
+  const analysis = analyzePosition(board, color, { maxTimeMs, maxDepth, lines }, analysisTransTable);
+  let step = analysis.next();
+  while (!step.done) {
+    post({ type: 'analysis', id, analysis: step.value, done: false });
+    await yieldToMessages();
+    if (activeSearchId !== id) return;
+    step = analysis.next();
+  }
+  post({ type: 'analysis', id, analysis: step.value, done: true });
+};
+
+const runReview = async (request: StartReviewMessage) => {
+  const { id, start, moves, maxTimeMs, maxDepth } = request;
+  const review = reviewGame(start, moves, { maxTimeMs, maxDepth }, analysisTransTable);
+  let step = review.next();
+  while (!step.done) {
+    post({ type: 'reviewProgress', id, ...step.value });
+    await yieldToMessages();
+    if (activeSearchId !== id) return;
+    step = review.next();
+  }
+  post({ type: 'report', id, report: step.value });
+};
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    if (activeSearchId === request.id) activeSearchId = null;
+    return;
+  }
+
+  activeSearchId = request.id;
+  const run = request.type === 'analyze' ? runAnalysis(request) : request.type === 'review' ? runReview(request) : runSearch(request);
+  run.catch(error => {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+  });
+};
@@ -0,0 +1,113 @@
+// Main thread side of the search worker protocol
+
+import { SearchMove, SearchProgress } from './ai';
+import { PositionAnalysis } from './analysis';
+import { GameReport, ReportProgress } from './gameReport';
+import { SearchResponse, StartAnalysisMessage, StartReviewMessage, StartSearchMessage } from './searchProtocol';
+import { createSearchWorker } from './searchWorker';
+
+export interface SearchCallbacks {
+  onProgress?: (progress: SearchProgress) => void;
+  onResult: (move: SearchMove | null) => void;
+  onError?: (message: string) => void;
+}
+
+export interface AnalysisCallbacks {
+  onAnalysis: (analysis: PositionAnalysis, done: boolean) => void;
+  onError?: (message: string) => void;
+}
+
+export interface ReviewCallbacks {
+  onProgress?: (progress: ReportProgress) => void;
+  onReport: (report: GameReport) => void;
+  onError?: (message: string) => void;
+}
+
+// Runs one search or analysis at a time; starting another cancels the previous one
+export class SearchClient {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private activeId: number | null = null;
+  // Handles replies for the active id; returns true once the work is finished
+  private listener: ((message: SearchResponse) => boolean) | null = null;
+
+  start(search: Omit<StartSearchMessage, 'type' | 'id'>, callbacks: SearchCallbacks): void {
+    this.send({ type: 'start', ...search }, message => {
+      if (message.type === 'progress') {
+        callbacks.onProgress?.({ depth: message.depth, bestMove: message.bestMove, score: message.score });
+        return false;
+      }
+      if (message.type === 'result') callbacks.onResult(message.move);
+      if (message.type === 'error') callbacks.onError?.(message.message);
+      return true;
+    });
+  }
+
+  analyze(analysis: Omit<StartAnalysisMessage, 'type' | 'id'>, callbacks: AnalysisCallbacks): void {
+    this.send({ type: 'analyze', ...analysis }, message => {
+      if (message.type === 'analysis') {
+        callbacks.onAnalysis(message.analysis, message.done);
+        return message.done;
+      }
+      if (message.type === 'error') callbacks.onError?.(message.message);
+      return true;
+    });
+  }
+
+  review(review: Omit<StartReviewMessage, 'type' | 'id'>, callbacks: ReviewCallbacks): void {
+    this.send({ type: 'review', ...review }, message => {
+      if (message.type === 'reviewProgress') {
+        callbacks.onProgress?.({ analyzed: message.analyzed, total: message.total });
+        return false;
+      }
+      if (message.type === 'report') callbacks.onReport(message.report);
+      if (message.type === 'error') callbacks.onError?.(message.message);
+      return true;
+    });
+  }
+
+  cancel(): void {
+    if (this.activeId === null) return;
+    this.worker?.postMessage({ type: 'cancel', id: this.activeId });
+    this.activeId = null;
+    this.listener = null;
+  }
+
+  isSearching(): boolean {
+    return this.activeId !== null;
+  }
+
+  terminate(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = createSearchWorker();
+      this.worker.onmessage = (event: MessageEvent<SearchResponse>) => this.handleMessage(event.data);
+    }
+    return this.worker;
+  }
+
+  private send(
+    request: Omit<StartSearchMessage, 'id'> | Omit<StartAnalysisMessage, 'id'> | Omit<StartReviewMessage, 'id'>,
+    listener: (message: SearchResponse) => boolean
+  ): void {
+    this.cancel();
+    const id = this.nextId++;
+    this.activeId = id;
+    this.listener = listener;
+    this.getWorker().postMessage({ ...request, id });
+  }
+
+  private handleMessage(message: SearchResponse): void {
+    if (message.id !== this.activeId || !this.listener) return;
+    const listener = this.listener;
+    if (listener(message) && this.activeId === message.id) {
+      this.activeId = null;
+      this.listener = null;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+// Messages exchanged between the UI and the search worker (search.worker.ts).
+// Every search carries an id so late replies from a cancelled search are ignored.
+
+import { AIEngine, SearchMove } from './ai';
+import { PositionAnalysis } from './analysis';
+import { GameReport } from './gameReport';
+import { Cell, Color, Position, Square } from './rules';
+
+export interface StartSearchMessage {
+  type: 'start';
+  id: number;
+  board: (Cell | null)[][];
+  color: Color;
+  engine: AIEngine;
+  // Iterative deepening limits (AI-4 only)
+  maxTimeMs: number;
+  maxDepth: number;
+}
+
+// Review-mode analysis (AI-4): reports after every completed depth
+export interface StartAnalysisMessage {
+  type: 'analyze';
+  id: number;
+  board: (Cell | null)[][];
+  color: Color;
+  maxTimeMs: number;
+  maxDepth: number;
+  lines: number;
+}
+
+// Post-game accuracy report (AI-4): reports after every position
+export interface StartReviewMessage {
+  type: 'review';
+  id: number;
+  start: Position;
+  moves: Square[];
+  // Limits for each position
+  maxTimeMs: number;
+  maxDepth: number;
+}
+
+export interface CancelSearchMessage {
+  type: 'cancel';
+  id: number;
+}
+
+export type SearchRequest = StartSearchMessage | StartAnalysisMessage | StartReviewMessage | CancelSearchMessage;
+
+export interface SearchProgressMessage {
+  type: 'progress';
+  id: number;
+  depth: number;
+  bestMove: SearchMove | null;
+  score: number;
+}
+
+export interface SearchResultMessage {
+  type: 'result';
+  id: number;
+  move: SearchMove | null;
+}
+
+export interface SearchErrorMessage {
+  type: 'error';
+  id: number;
+  message: string;
+}
+
+export interface AnalysisMessage {
+  type: 'analysis';
+  id: number;
+  analysis: PositionAnalysis;
+  // Last report for this analysis
+  done: boolean;
+}
+
+export interface ReviewProgressMessage {
+  type: 'reviewProgress';
+  id: number;
+  analyzed: number;
+  total: number;
+}
+
+export interface ReportMessage {
+  type: 'report';
+  id: number;
+  report: GameReport;
+}
+
+export type SearchResponse =
+  | SearchProgressMessage
+  | SearchResultMessage
+  | AnalysisMessage
+  | ReviewProgressMessage
+  | ReportMessage
+  | SearchErrorMessage;
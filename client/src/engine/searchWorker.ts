@@ -0,0 +1,3 @@
+// Starts the search worker. Kept out of SearchClient so that Jest, which can't
+// parse import.meta, can load the app with the mock in __mocks__ instead.
+export const createSearchWorker = (): Worker => new Worker(new URL('./search.worker.ts', import.meta.url));
@@ -0,0 +1,72 @@
+// Headless engine games, for command line tools that record or measure play
+
+import { AIEngine, SearchMove, TranspositionTable, getAIMove, iterativeDeepeningMinimax } from './ai';
+import { Color, Position, ReadonlyBoard, Square, applyMove, createInitialPosition, isValidMove, opponentOf } from './rules';
+
+export interface EngineConfig {
+  engine: AIEngine;
+  // Search time per move in milliseconds
+  moveTimeMs?: number;
+  // AI-4 depth cap
+  maxDepth?: number;
+}
+
+// Picks a move for `color`; `moves` is the game so far, for engines driven over the protocol
+export type MoveChooser = (board: ReadonlyBoard, color: Color, moves: Square[]) => SearchMove | null | Promise<SearchMove | null>;
+
+export interface RecordedGame {
+  moves: Square[];
+  result: Color | 'draw';
+  // Forfeit: the loser's engine failed, gave no move or an illegal one
+  reason: 'igo' | 'wego' | 'forfeit';
+  error?: string;
+  // Thinking time for each move, in the same order as moves
+  moveTimesMs: number[];
+}
+
+// Each chooser gets its own transposition table so two AI-4 configurations
+// in one game don't share what they have searched
+export const engineChooser = ({ engine, moveTimeMs = 1000, maxDepth = 3 }: EngineConfig): MoveChooser => {
+  const transTable = new TranspositionTable();
+  return (board, color) => {
+    const searchBoard = board.map(row => [...row]);
+    return engine === 'ai-4'
+      ? iterativeDeepeningMinimax(searchBoard, moveTimeMs, color, transTable, maxDepth)
+      : getAIMove(searchBoard, engine, color, moveTimeMs);
+  };
+};
+
+// Play one game from the empty board
+export const playGame = async (white: MoveChooser, black: MoveChooser): Promise<RecordedGame> => {
+  const players = { white, black };
+  const moves: Square[] = [];
+  const moveTimesMs: number[] = [];
+  let position: Position = createInitialPosition();
+
+  for (;;) {
+    const player = position.toMove;
+    const start = Date.now();
+    let move: SearchMove | null;
+    let error: string | undefined;
+    try {
+      move = await players[player](position.board, player, moves.slice());
+    } catch (searchError) {
+      move = null;
+      error = searchError instanceof Error ? searchError.message : String(searchError);
+    }
+    moveTimesMs.push(Date.now() - start);
+
+    // applyMove reports a Wego before anyone is left without a move, so no move is always a failure
+    if (!move || !isValidMove(position.board, move.row, move.col, player)) {
+      if (!error) error = move ? `Illegal move for ${player} at ${move.row},${move.col}` : `No move found for ${player}`;
+      moveTimesMs.pop();
+      return { moves, result: opponentOf(player), reason: 'forfeit', error, moveTimesMs };
+    }
+    const result = applyMove(position, move.row, move.col);
+    moves.push({ row: move.row, col: move.col });
+    if (result.gameOver) {
+      return { moves, result: result.winner!, reason: result.igoLine ? 'igo' : 'wego', moveTimesMs };
+    }
+    position = result.position;
+  }
+};
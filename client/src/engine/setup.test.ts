@@ -0,0 +1,13 @@
+import { decodePosition } from './positionNotation';
+import { findSetupProblems } from './setup';
+
+const problemsIn = (text: string) => findSetupProblems(decodePosition(text).position);
+
+test('a position with only short lines is accepted', () => {
+  expect(problemsIn('wwwwb3/8/8/8/8/8/8/bbbb4 b 3')).toEqual([]);
+});
+
+test('long lines and existing Igos are rejected', () => {
+  expect(problemsIn('wwwww3/8/8/8/8/8/8/8 b 1')).toEqual(['White has a line longer than 4 (a8-e8)']);
+  expect(problemsIn('8/1B6/2B5/3B4/4B3/8/8/8 w 1')).toEqual(['Black already has an Igo (b7-e4)']);
+});
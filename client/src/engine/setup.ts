@@ -0,0 +1,52 @@
+// Checks for positions set up by hand (board editor, pasted positions), which
+// never went through applyMove
+
+import { BOARD_SIZE, Color, Position, Square, checkForNexus, hasLegalMoves } from './rules';
+import { squareName } from './notation';
+
+// Half of the 8 directions - a line is found once, from its first square
+const LINE_DIRECTIONS = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+const colorName = (color: Color): string => (color === 'white' ? 'White' : 'Black');
+
+// Ends of a line, top end first
+const describeLine = (line: Square[]): string => {
+  const sorted = [...line].sort((a, b) => a.row - b.row || a.col - b.col);
+  return `${squareName(sorted[0])}-${squareName(sorted[sorted.length - 1])}`;
+};
+
+// What stops the position from being played on, or an empty list if nothing does
+export const findSetupProblems = ({ board, toMove }: Position): string[] => {
+  const problems: string[] = [];
+  const at = (row: number, col: number) =>
+    row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE ? board[row][col] : null;
+
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      const cell = board[row][col];
+      if (!cell || !cell.color) continue;
+
+      for (const [dr, dc] of LINE_DIRECTIONS) {
+        if (at(row - dr, col - dc)?.color === cell.color) continue;
+        const line: Square[] = [];
+        while (at(row + line.length * dr, col + line.length * dc)?.color === cell.color) {
+          line.push({ row: row + line.length * dr, col: col + line.length * dc });
+        }
+        if (line.length > 4) {
+          problems.push(`${colorName(cell.color)} has a line longer than 4 (${describeLine(line)})`);
+        }
+      }
+
+      // Report each Igo from its first square only
+      const igo = cell.isNode ? checkForNexus(board, row, col, cell.color) : null;
+      if (igo && igo[0].row === row && igo[0].col === col) {
+        problems.push(`${colorName(cell.color)} already has an Igo (${describeLine(igo)})`);
+      }
+    }
+  }
+
+  if (problems.length === 0 && !hasLegalMoves(board, toMove)) {
+    problems.push(`${colorName(toMove)} has no legal move`);
+  }
+  return problems;
+};
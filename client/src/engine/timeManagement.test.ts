@@ -0,0 +1,15 @@
+import { allocateThinkTime } from './timeManagement';
+
+test('untimed games use the tier budget', () => {
+  expect(allocateThinkTime('ai-4', 64)).toBe(3000);
+});
+
+test('budget follows the remaining clock and increment', () => {
+  const plenty = allocateThinkTime('ai-4', 40, { remainingMs: 600000, incrementMs: 0 });
+  const withIncrement = allocateThinkTime('ai-4', 40, { remainingMs: 600000, incrementMs: 5000 });
+  const shortOfTime = allocateThinkTime('ai-4', 40, { remainingMs: 3000, incrementMs: 0 });
+
+  expect(plenty).toBe(599000 / 20);
+  expect(withIncrement).toBeGreaterThan(plenty);
+  expect(shortOfTime).toBeLessThan(1000);
+});
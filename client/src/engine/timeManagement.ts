@@ -0,0 +1,35 @@
+// How long an engine may think for one move
+
+import { AIEngine } from './ai';
+
+export interface EngineClock {
+  remainingMs: number;
+  incrementMs: number;
+}
+
+// Per-move budget when the game has no clock
+const UNTIMED_BUDGET_MS: Record<AIEngine, number> = {
+  'ai-1': 1000,
+  'ai-2': 1500,
+  'ai-3': 2000,
+  'ai-4': 3000
+};
+
+// Covers the one-second clock tick and worker message latency
+const SAFETY_MARGIN_MS = 1000;
+const MIN_BUDGET_MS = 100;
+// Never stake more than this share of the remaining clock on one move
+const MAX_SHARE_OF_CLOCK = 0.4;
+
+// Each side makes at most one move per empty square pair; games rarely
+// fill the board, so clamp the estimate to a sensible range
+const estimateMovesToGo = (emptySquares: number): number =>
+  Math.max(8, Math.min(30, Math.ceil(emptySquares / 2)));
+
+export const allocateThinkTime = (engine: AIEngine, emptySquares: number, clock?: EngineClock | null): number => {
+  if (!clock) return UNTIMED_BUDGET_MS[engine];
+
+  const usable = Math.max(0, clock.remainingMs - SAFETY_MARGIN_MS);
+  const budget = usable / estimateMovesToGo(emptySquares) + clock.incrementMs * 0.75;
+  return Math.max(MIN_BUDGET_MS, Math.min(budget, usable * MAX_SHARE_OF_CLOCK));
+};
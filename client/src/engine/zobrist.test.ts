@@ -0,0 +1,27 @@
+import { BitboardPosition } from './bitboard';
+import { applyMove, createInitialPosition, opponentOf, placeMigo } from './rules';
+import { hashPosition, keyAfterBitboardMove, keyAfterMove, keysEqual } from './zobrist';
+
+test('incremental keys match keys hashed from scratch, including Yugo formation', () => {
+  const moves = [[0, 0], [7, 7], [0, 1], [7, 6], [0, 2], [7, 5], [0, 3], [6, 0]];
+  let position = createInitialPosition();
+  let key = hashPosition(position.board, position.toMove);
+  const bitboard = new BitboardPosition();
+  let bitboardKey = key;
+
+  moves.forEach(([row, col]) => {
+    const placed = placeMigo(position.board, row, col, position.toMove);
+    key = keyAfterMove(key, position.board, row, col, placed);
+    bitboardKey = keyAfterBitboardMove(bitboardKey, bitboard.make(row * 8 + col));
+    position = applyMove(position, row, col).position;
+    expect(keysEqual(key, hashPosition(position.board, position.toMove))).toBe(true);
+    expect(keysEqual(bitboardKey, key)).toBe(true);
+  });
+});
+
+test('keys depend on side to move and search perspective', () => {
+  const { board } = applyMove(createInitialPosition(), 3, 3).position;
+  const white = hashPosition(board, 'white');
+  expect(keysEqual(white, hashPosition(board, opponentOf('white')))).toBe(false);
+  expect(keysEqual(white, hashPosition(board, 'white', 'black'))).toBe(false);
+});
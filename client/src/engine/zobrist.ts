@@ -0,0 +1,96 @@
+// Zobrist hashing for engine positions
+// A key is 64 bits held as two 32-bit halves, XOR-updated as moves are played.
+// The random table comes from a fixed seed, so keys are stable between builds
+// and can be stored.
+
+import { BOARD_SIZE, Cell, Color, PlacedMigo, ReadonlyBoard, yugoValue } from './rules';
+import { BitboardMove, maskToIndexes } from './bitboard';
+
+export interface ZobristKey {
+  hi: number;
+  lo: number;
+}
+
+// Per color: Migo, then Yugo worth 1 to 4
+const STATES_PER_COLOR = 5;
+const STATES_PER_CELL = STATES_PER_COLOR * 2;
+const CELL_KEYS = BOARD_SIZE * BOARD_SIZE * STATES_PER_CELL;
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return (t ^ (t >>> 14)) | 0;
+};
+
+const random = createRandom(0x4d49474f); // "MIGO"
+const cellKeysHi = new Int32Array(CELL_KEYS);
+const cellKeysLo = new Int32Array(CELL_KEYS);
+for (let i = 0; i < CELL_KEYS; i++) {
+  cellKeysHi[i] = random();
+  cellKeysLo[i] = random();
+}
+const BLACK_TO_MOVE: ZobristKey = { hi: random(), lo: random() };
+// Search scores depend on whose point of view they were computed from
+const BLACK_PERSPECTIVE: ZobristKey = { hi: random(), lo: random() };
+
+const cellIndex = (row: number, col: number, cell: Readonly<Cell>): number =>
+  (row * BOARD_SIZE + col) * STATES_PER_CELL +
+  (cell.color === 'black' ? STATES_PER_COLOR : 0) +
+  (cell.isNode ? yugoValue(cell) : 0);
+
+export const EMPTY_KEY: ZobristKey = { hi: 0, lo: 0 };
+
+export const xorCell = (key: ZobristKey, row: number, col: number, cell: Readonly<Cell> | null): ZobristKey => {
+  if (!cell || !cell.color) return key;
+  const index = cellIndex(row, col, cell);
+  return { hi: key.hi ^ cellKeysHi[index], lo: key.lo ^ cellKeysLo[index] };
+};
+
+export const hashBoard = (board: ReadonlyBoard): ZobristKey => {
+  let key = EMPTY_KEY;
+  for (let row = 0; row < BOARD_SIZE; row++) {
+    for (let col = 0; col < BOARD_SIZE; col++) {
+      key = xorCell(key, row, col, board[row][col]);
+    }
+  }
+  return key;
+};
+
+export const hashPosition = (board: ReadonlyBoard, toMove: Color, perspective?: Color): ZobristKey => {
+  let key = hashBoard(board);
+  if (toMove === 'black') key = { hi: key.hi ^ BLACK_TO_MOVE.hi, lo: key.lo ^ BLACK_TO_MOVE.lo };
+  if (perspective === 'black') key = { hi: key.hi ^ BLACK_PERSPECTIVE.hi, lo: key.lo ^ BLACK_PERSPECTIVE.lo };
+  return key;
+};
+
+// Key of the position after `placed` was played from `before` (side to move flips)
+export const keyAfterMove = (key: ZobristKey, before: ReadonlyBoard, row: number, col: number, placed: PlacedMigo): ZobristKey => {
+  let next = xorCell(key, row, col, placed.board[row][col]);
+  for (const removed of placed.removedCells) {
+    next = xorCell(next, removed.row, removed.col, before[removed.row][removed.col]);
+  }
+  return { hi: next.hi ^ BLACK_TO_MOVE.hi, lo: next.lo ^ BLACK_TO_MOVE.lo };
+};
+
+// Same as keyAfterMove, for a move made on a BitboardPosition
+export const keyAfterBitboardMove = (key: ZobristKey, move: BitboardMove): ZobristKey => {
+  const { square, player, yugoType, removed } = move;
+  const row = square >> 3;
+  const col = square & 7;
+  let next = xorCell(key, row, col, yugoType ? { color: player, isNode: true, nodeType: yugoType } : { color: player, isNode: false });
+  if (removed[0] !== 0 || removed[1] !== 0) {
+    for (const removedSquare of maskToIndexes(removed)) {
+      next = xorCell(next, removedSquare >> 3, removedSquare & 7, { color: player, isNode: false });
+    }
+  }
+  return { hi: next.hi ^ BLACK_TO_MOVE.hi, lo: next.lo ^ BLACK_TO_MOVE.lo };
+};
+
+export const keysEqual = (a: ZobristKey, b: ZobristKey): boolean => a.hi === b.hi && a.lo === b.lo;
+
+// 16 hex digits, for use as a Map key or in files
+export const keyToString = (key: ZobristKey): string =>
+  (key.hi >>> 0).toString(16).padStart(8, '0') + (key.lo >>> 0).toString(16).padStart(8, '0');
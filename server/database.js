@@ -29,6 +29,43 @@ function initializeDatabase() {
         if (err) {
           console.error('Error creating users table:', err);
           reject(err);
+        }
+      });
+
+      // Create games table - finished online games, one row each
+      db.run(`
+        CREATE TABLE IF NOT EXISTS games (
+          id TEXT PRIMARY KEY,
+          white_name TEXT NOT NULL,
+          black_name TEXT NOT NULL,
+          white_user_id INTEGER REFERENCES users(id),
+          black_user_id INTEGER REFERENCES users(id),
+          time_control TEXT NOT NULL,
+          mgn TEXT NOT NULL,
+          move_count INTEGER NOT NULL,
+          move_times TEXT NOT NULL,
+          result TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          started_at DATETIME NOT NULL,
+          ended_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `, (err) => {
+        if (err) {
+          console.error('Error creating games table:', err);
+          reject(err);
+        }
+      });
+
+      db.run('CREATE INDEX IF NOT EXISTS games_white_user ON games (white_user_id)', (err) => {
+        if (err) {
+          console.error('Error creating games index:', err);
+          reject(err);
+        }
+      });
+      db.run('CREATE INDEX IF NOT EXISTS games_black_user ON games (black_user_id)', (err) => {
+        if (err) {
+          console.error('Error creating games index:', err);
+          reject(err);
         } else {
           console.log('Database initialized successfully');
           resolve();
@@ -209,6 +246,95 @@ function updateUserStats(userId, result) {
   });
 }
 
+// Game archive functions
+
+// Row from the games table in the shape the API returns; the MGN and move
+// times are only included when a single game is fetched
+function gameFromRow(row, full) {
+  const game = {
+    id: row.id,
+    white: row.white_name,
+    black: row.black_name,
+    whiteUserId: row.white_user_id,
+    blackUserId: row.black_user_id,
+    timeControl: row.time_control,
+    moveCount: row.move_count,
+    result: row.result,
+    reason: row.reason,
+    startedAt: row.started_at,
+    endedAt: row.ended_at
+  };
+  if (full) {
+    game.mgn = row.mgn;
+    game.moveTimes = JSON.parse(row.move_times);
+  }
+  return game;
+}
+
+function saveGame(game) {
+  return new Promise((resolve, reject) => {
+    db.run(
+      `INSERT INTO games (id, white_name, black_name, white_user_id, black_user_id, time_control,
+                          mgn, move_count, move_times, result, reason, started_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        game.id,
+        game.white,
+        game.black,
+        game.whiteUserId || null,
+        game.blackUserId || null,
+        game.timeControl,
+        game.mgn,
+        game.moveTimes.length,
+        JSON.stringify(game.moveTimes),
+        game.result,
+        game.reason,
+        new Date(game.startedAt).toISOString()
+      ],
+      function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      }
+    );
+  });
+}
+
+function getGamesForUser(userId, limit = 20, offset = 0) {
+  return new Promise((resolve, reject) => {
+    db.all(
+      `SELECT * FROM games WHERE white_user_id = ? OR black_user_id = ?
+       ORDER BY ended_at DESC LIMIT ? OFFSET ?`,
+      [userId, userId, limit, offset],
+      (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => gameFromRow(row, false)));
+        }
+      }
+    );
+  });
+}
+
+function getGameById(id) {
+  return new Promise((resolve, reject) => {
+    db.get(
+      'SELECT * FROM games WHERE id = ?',
+      [id],
+      (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row ? gameFromRow(row, true) : null);
+        }
+      }
+    );
+  });
+}
+
 // Admin functions
 function getAllUsers() {
   return new Promise((resolve, reject) => {
@@ -323,5 +449,8 @@ module.exports = {
   getAllUsers,
   getSystemStats,
   getRecentUsers,
-  getTopPlayers
+  getTopPlayers,
+  saveGame,
+  getGamesForUser,
+  getGameById
 }; 
\ No newline at end of file
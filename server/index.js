@@ -6,8 +6,12 @@ const path = require('path');
 const { v4: uuidv4 } = require('uuid');
 
 // Import authentication modules
-const { initializeDatabase, createUser, getUserByEmail, getUserByUsername, verifyPassword, getUserStats, getAllUsers, getSystemStats, getRecentUsers, getTopPlayers } = require('./database');
-const { generateToken, authenticateToken, optionalAuth } = require('./auth');
+const { initializeDatabase, createUser, getUserByEmail, getUserByUsername, verifyPassword, getUserStats, updateUserStats, getAllUsers, getSystemStats, getRecentUsers, getTopPlayers, saveGame, getGamesForUser, getGameById } = require('./database');
+const { generateToken, verifyToken, authenticateToken, optionalAuth } = require('./auth');
+
+// Shared rules engine (compiled from client/src/engine by `npm run build:engine`)
+const { createEmptyBoard, createInitialPosition, isValidMove, applyMove, replayMoves } = require('../dist/engine/rules');
+const { writeMgn, mgnDate } = require('../dist/engine/mgn');
 
 const app = express();
 const server = http.createServer(app);
@@ -180,6 +184,34 @@ app.get('/api/auth/stats', authenticateToken, async (req, res) => {
   }
 });
 
+// Game archive - the signed-in player's finished online games, newest first
+app.get('/api/games', authenticateToken, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 20, 100);
+    const offset = parseInt(req.query.offset) || 0;
+    const games = await getGamesForUser(req.user.id, limit, offset);
+    res.json({ games });
+  } catch (error) {
+    console.error('Games list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Game archive - one of the player's own games with its MGN record
+app.get('/api/games/:id', authenticateToken, async (req, res) => {
+  try {
+    const game = await getGameById(req.params.id);
+    // Other players' games look the same as ones that don't exist
+    if (!game || (game.whiteUserId !== req.user.id && game.blackUserId !== req.user.id)) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+    res.json({ game });
+  } catch (error) {
+    console.error('Game fetch error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin routes - Simple password protection
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'migoyugo-admin-2024';
 
@@ -699,201 +731,8 @@ const games = new Map();
 const waitingPlayers = [];
 const rooms = new Map(); // Room management: roomCode -> { host, guest, gameId, status }
 
-// Game logic functions
-function createEmptyBoard() {
-  return Array(8).fill(null).map(() => Array(8).fill(null));
-}
-
-function isValidMove(board, row, col, playerColor) {
-  if (row < 0 || row >= 8 || col < 0 || col >= 8) return false;
-  if (board[row][col] !== null) return false;
-  
-  // Check if move would create a line too long
-  return !wouldCreateLineTooLong(board, row, col, playerColor);
-}
-
-function wouldCreateLineTooLong(board, row, col, playerColor) {
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-
-  for (const [dr, dc] of directions) {
-    let count = 1;
-    
-    // Count in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].color === playerColor) {
-      count++;
-      r += dr;
-      c += dc;
-    }
-    
-    // Count in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].color === playerColor) {
-      count++;
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (count > 4) return true;
-  }
-  
-  return false;
-}
-
-function checkForVectors(board, row, col, playerColor) {
-  const directions = [
-    [-1, 0],  // up
-    [-1, 1],  // up-right diagonal  
-    [0, 1],   // right
-    [1, 1]    // down-right diagonal
-  ];
-  
-  const vectors = [];
-  
-  for (const [dr, dc] of directions) {
-    const line = [{row, col}];
-    
-    // Collect in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].color === playerColor) {
-      line.push({row: r, col: c});
-      r += dr;
-      c += dc;
-    }
-    
-    // Collect in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].color === playerColor) {
-      line.unshift({row: r, col: c});
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (line.length === 4) {
-      vectors.push(line);
-    }
-  }
-  
-  return vectors;
-}
-
-function processVectors(board, vectors, row, col) {
-  if (vectors.length === 0) return { nodeType: null, removedCells: [] };
-  
-  const removedCells = [];
-  
-  // Remove ions from vectors (except nodes and the new placement)
-  vectors.forEach(vector => {
-    vector.forEach(cell => {
-      if (!(cell.row === row && cell.col === col) && 
-          board[cell.row][cell.col] && 
-          !board[cell.row][cell.col].isNode) {
-        removedCells.push({row: cell.row, col: cell.col});
-        board[cell.row][cell.col] = null;
-      }
-    });
-  });
-  
-  // Determine node type based on number of vectors
-  let nodeType = 'standard';
-  if (vectors.length === 2) nodeType = 'double';
-  else if (vectors.length === 3) nodeType = 'triple';
-  else if (vectors.length === 4) nodeType = 'quadruple';
-  
-  return { nodeType, removedCells };
-}
-
-function checkForNexus(board, row, col, playerColor) {
-  const directions = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1],           [0, 1],
-    [1, -1],  [1, 0],  [1, 1]
-  ];
-  
-  for (const [dr, dc] of directions) {
-    const line = [{row, col}];
-    
-    // Collect in positive direction
-    let r = row + dr, c = col + dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].isNode && board[r][c].color === playerColor) {
-      line.push({row: r, col: c});
-      r += dr;
-      c += dc;
-    }
-    
-    // Collect in negative direction
-    r = row - dr;
-    c = col - dc;
-    while (r >= 0 && r < 8 && c >= 0 && c < 8 && 
-           board[r][c] && board[r][c].isNode && board[r][c].color === playerColor) {
-      line.unshift({row: r, col: c});
-      r -= dr;
-      c -= dc;
-    }
-    
-    if (line.length === 4) {
-      return line;
-    }
-  }
-  
-  return null;
-}
-
-function hasLegalMoves(board, playerColor) {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      if (isValidMove(board, row, col, playerColor)) {
-        return true;
-      }
-    }
-  }
-  return false;
-}
-
-function countNodes(board, playerColor) {
-  let count = 0;
-  console.log(`DEBUG SERVER: Counting nodes for ${playerColor}`);
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const cell = board[row][col];
-      if (cell && cell.isNode && cell.color === playerColor) {
-        // Count node value based on its type
-        let nodeValue = 1; // default
-        switch (cell.nodeType) {
-          case 'standard':
-            nodeValue = 1;
-            break;
-          case 'double':
-            nodeValue = 2;
-            break;
-          case 'triple':
-            nodeValue = 3;
-            break;
-          case 'quadruple':
-            nodeValue = 4;
-            break;
-          default:
-            nodeValue = 1; // fallback for nodes without nodeType
-        }
-        console.log(`DEBUG SERVER: Node at ${row},${col} type=${cell.nodeType} value=${nodeValue}`);
-        count += nodeValue;
-      }
-    }
-  }
-  console.log(`DEBUG SERVER: Total count for ${playerColor}: ${count}`);
-  return count;
-}
+// How long a disconnected player's seat is held before the opponent can claim the win
+const RECONNECT_GRACE_SECONDS = 60;
 
 function startServerTimer(gameId) {
   const game = games.get(gameId);
@@ -927,6 +766,7 @@ function startServerTimer(gameId) {
       const winner = currentPlayer === 'white' ? 'black' : 'white';
       game.gameStatus = 'finished';
       clearInterval(game.timerInterval);
+      recordFinishedGame(game, winner, 'timeout');
       
       io.to(gameId).emit('gameEnd', {
         winner,
@@ -958,6 +798,178 @@ function addTimeIncrement(gameId) {
   console.log(`Added ${game.timerSettings.incrementSeconds}s increment to ${currentPlayer} in game ${gameId}`);
 }
 
+// Take back the last `plies` moves. The board and scores are replayed from the
+// start; each clock goes back to what it showed after the last move kept.
+function rollBackGame(gameId, plies) {
+  const game = games.get(gameId);
+  if (!game) return;
+
+  game.moveHistory = game.moveHistory.slice(0, game.moveHistory.length - plies);
+  const results = replayMoves(game.moveHistory);
+  const last = results[results.length - 1];
+  const position = last ? last.position : createInitialPosition();
+  game.board = position.board;
+  game.currentPlayer = position.toMove;
+  game.scores = last ? last.scores : { white: 0, black: 0 };
+  game.lastMove = last ? last.move : null;
+
+  const kept = game.moveHistory[game.moveHistory.length - 1];
+  const startingTime = game.timerSettings.minutesPerPlayer * 60;
+  game.timers = kept ? { ...kept.timers } : { white: startingTime, black: startingTime };
+
+  if (game.timerSettings.timerEnabled) {
+    startServerTimer(gameId);
+  }
+}
+
+// Store a finished game in the archive. `result` is the winning colour or
+// 'draw'; `reason` is the MGN termination (igo, wego, timeout, ...).
+function archiveGame(game, result, reason) {
+  const { timerSettings } = game;
+  const white = game.players.white;
+  const black = game.players.black;
+  const timeControl = timerSettings.timerEnabled
+    ? `${timerSettings.minutesPerPlayer * 60}+${timerSettings.incrementSeconds}`
+    : '-';
+  
+  let mgn;
+  try {
+    mgn = writeMgn({
+      tags: {
+        Date: mgnDate(new Date(game.startedAt)),
+        White: white.name,
+        Black: black.name,
+        Mode: 'online',
+        TimeControl: timeControl
+      },
+      moves: game.moveHistory.map(({ row, col }) => ({ row, col })),
+      result,
+      termination: reason
+    });
+  } catch (error) {
+    console.error(`Could not write MGN for game ${game.id}:`, error);
+    return;
+  }
+  
+  saveGame({
+    id: game.id,
+    white: white.name,
+    black: black.name,
+    whiteUserId: white.userId,
+    blackUserId: black.userId,
+    timeControl,
+    mgn,
+    // Milliseconds from the start of the game to each move
+    moveTimes: game.moveHistory.map(move => move.at - game.startedAt),
+    result,
+    reason,
+    startedAt: game.startedAt
+  }).catch(error => {
+    console.error(`Error saving game ${game.id}:`, error);
+  });
+}
+
+// Games shorter than this are aborted rather than played, and left out of stats
+const MIN_COUNTED_MOVES = 2;
+
+// Count a finished game in the players' win/loss/draw records. Only signed-in
+// players have records; a guest's result is not kept, but the signed-in
+// player facing them still gets theirs. A player who disconnects and isn't
+// back within RECONNECT_GRACE_SECONDS loses to the player who stayed, once
+// that player claims the win or leaves too. A game someone played against
+// themselves doesn't count.
+function recordStats(game, result) {
+  const white = game.players.white;
+  const black = game.players.black;
+  if (game.moveHistory.length < MIN_COUNTED_MOVES) return;
+  if (white.userId && white.userId === black.userId) return;
+  
+  [['white', white], ['black', black]].forEach(([color, player]) => {
+    if (!player.userId) return;
+    const outcome = result === 'draw' ? 'draw' : result === color ? 'win' : 'loss';
+    updateUserStats(player.userId, outcome).catch(error => {
+      console.error(`Error updating stats for user ${player.userId}:`, error);
+    });
+  });
+}
+
+// Everything kept once a game has a result
+function recordFinishedGame(game, result, reason) {
+  archiveGame(game, result, reason);
+  recordStats(game, result);
+}
+
+// Active game seat left by a disconnected user or guest, if any
+function findVacantSeat(userId, guestToken) {
+  for (const game of games.values()) {
+    if (game.gameStatus !== 'active') continue;
+    for (const color of ['white', 'black']) {
+      const player = game.players[color];
+      if (!player.disconnectedAt) continue;
+      if ((userId && player.userId === userId) || (guestToken && player.guestToken === guestToken)) {
+        return { game, color };
+      }
+    }
+  }
+  return null;
+}
+
+function gracePeriodOver(player) {
+  return Boolean(player.disconnectedAt) && Date.now() - player.disconnectedAt >= RECONNECT_GRACE_SECONDS * 1000;
+}
+
+// Hold a disconnected player's seat until the grace period is over
+function holdSeat(game, color) {
+  const player = game.players[color];
+  player.disconnectedAt = Date.now();
+  player.graceTimer = setTimeout(() => releaseSeat(game.id, color), RECONNECT_GRACE_SECONDS * 1000);
+}
+
+// The absent player's grace period is over: the opponent can claim the win,
+// or gets it straight away if they have gone too, having stayed longer
+function releaseSeat(gameId, absentColor) {
+  const game = games.get(gameId);
+  if (!game || game.gameStatus !== 'active' || !game.players[absentColor].disconnectedAt) return;
+  
+  const opponent = game.players[absentColor === 'white' ? 'black' : 'white'];
+  if (opponent.disconnectedAt) {
+    endAbandonedGame(gameId, absentColor);
+    return;
+  }
+  opponent.socket.emit('winClaimable', { color: absentColor });
+}
+
+function clearGraceTimers(game) {
+  ['white', 'black'].forEach(color => {
+    clearTimeout(game.players[color].graceTimer);
+    game.players[color].graceTimer = null;
+  });
+}
+
+// End a game whose player never came back; the opponent wins
+function endAbandonedGame(gameId, absentColor) {
+  const game = games.get(gameId);
+  if (!game || game.gameStatus !== 'active' || !game.players[absentColor].disconnectedAt) return;
+  
+  const winner = absentColor === 'white' ? 'black' : 'white';
+  game.gameStatus = 'finished';
+  stopServerTimer(gameId);
+  clearGraceTimers(game);
+  recordFinishedGame(game, winner, 'disconnection');
+  
+  io.to(gameId).emit('gameEnd', {
+    winner,
+    reason: 'disconnection'
+  });
+  
+  console.log(`Game ${gameId} ended - ${absentColor} did not reconnect, ${winner} wins`);
+  
+  if (game.roomCode) {
+    rooms.delete(game.roomCode);
+  }
+  games.delete(gameId);
+}
+
 // Socket.IO connection handling
 io.on('connection', (socket) => {
   console.log('User connected:', socket.id);
@@ -970,14 +982,77 @@ io.on('connection', (socket) => {
   if (authData.isGuest) {
     playerName = `Guest${Math.floor(Math.random() * 9000) + 1000}`;
   } else if (authData.user && authData.user.username) {
+    // The user id is only taken from a verified token, below
     playerName = authData.user.username;
-    userId = authData.user.id;
   } else {
     playerName = `Player${Math.floor(Math.random() * 9000) + 1000}`;
   }
   
+  // Lets a guest be given their seat back after a dropped connection
+  const guestToken = authData.isGuest && typeof authData.guestToken === 'string' ? authData.guestToken : null;
+  
   console.log(`${playerName} connected ${authData.isGuest ? '(guest)' : '(authenticated)'}`);
 
+  // Put a returning player back in the game they dropped out of
+  const reattachSeat = (verifiedUserId) => {
+    const seat = findVacantSeat(verifiedUserId, guestToken);
+    if (!seat) return;
+    
+    const { game, color } = seat;
+    const player = game.players[color];
+    const opponent = game.players[color === 'white' ? 'black' : 'white'];
+    const room = game.roomCode && rooms.get(game.roomCode);
+    if (room) {
+      const entry = room.host.id === player.id ? room.host : room.guest && room.guest.id === player.id ? room.guest : null;
+      if (entry) {
+        entry.id = socket.id;
+        entry.socket = socket;
+      }
+    }
+    clearTimeout(player.graceTimer);
+    player.graceTimer = null;
+    player.id = socket.id;
+    player.socket = socket;
+    player.disconnectedAt = null;
+    playerName = player.name;
+    userId = player.userId;
+    socket.join(game.id);
+    
+    console.log(`${playerName} reconnected to game ${game.id} as ${color}`);
+    
+    socket.emit('gameReconnected', {
+      gameId: game.id,
+      playerColor: color,
+      opponentName: opponent.name,
+      timerSettings: game.timerSettings,
+      gameState: {
+        board: game.board,
+        currentPlayer: game.currentPlayer,
+        scores: game.scores,
+        lastMove: game.lastMove,
+        players: {
+          white: game.players.white.name,
+          black: game.players.black.name
+        }
+      },
+      moveHistory: game.moveHistory.map(({ row, col, player, vectors }) => ({ row, col, player, vectors })),
+      timers: game.timers,
+      timestamp: Date.now()
+    });
+    opponent.socket.emit('opponentReconnected', { color });
+  };
+  
+  if (guestToken) {
+    reattachSeat(null);
+  } else if (authData.token) {
+    verifyToken(authData.token)
+      .then(decoded => {
+        userId = decoded.id;
+        reattachSeat(decoded.id);
+      })
+      .catch(() => {});
+  }
+
 
   socket.on('findMatch', (timerSettings) => {
     const playerId = socket.id;
@@ -1000,8 +1075,8 @@ io.on('connection', (socket) => {
       const gameState = {
         id: gameId,
         players: {
-          white: { id: opponent.id, name: opponent.name, userId: opponent.userId, socket: opponent.socket },
-          black: { id: playerId, name: playerName, userId: userId, socket: socket }
+          white: { id: opponent.id, name: opponent.name, userId: opponent.userId, guestToken: opponent.guestToken, socket: opponent.socket },
+          black: { id: playerId, name: playerName, userId: userId, guestToken, socket: socket }
         },
         board: createEmptyBoard(),
         currentPlayer: 'white',
@@ -1015,7 +1090,8 @@ io.on('connection', (socket) => {
           black: standardTimer.minutesPerPlayer * 60
         },
         timerInterval: null,
-        lastMoveTime: Date.now()
+        lastMoveTime: Date.now(),
+        startedAt: Date.now()
       };
       
       games.set(gameId, gameState);
@@ -1068,7 +1144,7 @@ io.on('connection', (socket) => {
       
     } else {
       // Add to waiting list
-      waitingPlayers.push({ id: playerId, name: playerName, userId: userId, socket });
+      waitingPlayers.push({ id: playerId, name: playerName, userId: userId, guestToken, socket });
       socket.emit('waitingForOpponent');
     }
   });
@@ -1082,59 +1158,37 @@ io.on('connection', (socket) => {
     
     if (!isValidMove(game.board, row, col, playerColor)) return;
     
-    // Place the ion
-    game.board[row][col] = { color: playerColor, isNode: false };
+    const result = applyMove({ board: game.board, toMove: playerColor }, row, col);
+    const { vectors, yugoType: nodeType, removedCells, igoLine: nexus, wego } = result;
+    const gameOver = result.gameOver;
+    const winner = result.winner;
+    const wegoOccurred = !!wego;
     
-    // Check for vectors
-    const vectors = checkForVectors(game.board, row, col, playerColor);
-    const { nodeType, removedCells } = processVectors(game.board, vectors, row, col);
+    game.board = result.position.board;
+    game.scores = result.scores;
     
-    // If vectors were formed, make this cell a node
-    if (nodeType) {
-      game.board[row][col] = { color: playerColor, isNode: true, nodeType };
-      // Recalculate scores for both players (vector formation can affect both)
-      game.scores.white = countNodes(game.board, 'white');
-      game.scores.black = countNodes(game.board, 'black');
-    }
-    
-    // Check for nexus (winning condition)
-    const nexus = checkForNexus(game.board, row, col, playerColor);
-    let gameOver = false;
-    let winner = null;
-    let wegoOccurred = false;
-    
-    if (nexus) {
-      gameOver = true;
-      winner = playerColor;
+    if (gameOver) {
       game.gameStatus = 'finished';
-    } else {
-      // Switch players
-      game.currentPlayer = game.currentPlayer === 'white' ? 'black' : 'white';
-      
-      // Check if next player has legal moves
-      if (!hasLegalMoves(game.board, game.currentPlayer)) {
-        gameOver = true;
-        wegoOccurred = true;
-        const whiteNodes = countNodes(game.board, 'white');
-        const blackNodes = countNodes(game.board, 'black');
-        
-        if (whiteNodes > blackNodes) winner = 'white';
-        else if (blackNodes > whiteNodes) winner = 'black';
-        else winner = 'draw';
-        
-        game.gameStatus = 'finished';
-      }
+    }
+    if (!nexus) {
+      game.currentPlayer = result.position.toMove;
     }
     
     game.lastMove = { row, col, player: playerColor };
-    game.moveHistory.push({ row, col, player: playerColor, vectors: vectors.length });
+    // A takeback asked for before this move no longer fits the position,
+    // and a draw offer lapses once the game moves on
+    game.takebackRequest = null;
+    game.drawOffer = null;
     
     // Add time increment for the player who just moved
     addTimeIncrement(gameId);
+    // Clocks are kept with each move so a takeback can restore them
+    game.moveHistory.push({ row, col, player: playerColor, vectors, timers: { ...game.timers }, at: Date.now() });
     
     // Stop timer if game is over, otherwise restart for next player
     if (gameOver) {
       stopServerTimer(gameId);
+      recordFinishedGame(game, winner, nexus ? 'igo' : 'wego');
     } else if (game.timerSettings.timerEnabled) {
       // Restart timer for the new current player
       startServerTimer(gameId);
@@ -1145,7 +1199,7 @@ io.on('connection', (socket) => {
       row,
       col,
       player: playerColor,
-      vectors: vectors.length,
+      vectors,
       nodeType,
       removedCells,
       board: game.board,
@@ -1185,13 +1239,15 @@ io.on('connection', (socket) => {
 
   socket.on('resign', ({ gameId }) => {
     const game = games.get(gameId);
-    if (!game) return;
+    if (!game || game.gameStatus !== 'active') return;
     
     const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
     const winner = playerColor === 'white' ? 'black' : 'white';
     
     game.gameStatus = 'finished';
     stopServerTimer(gameId);
+    recordFinishedGame(game, winner, 'resignation');
     
     io.to(gameId).emit('gameEnd', {
       winner,
@@ -1205,9 +1261,12 @@ io.on('connection', (socket) => {
     if (!game || game.gameStatus !== 'active') return;
     
     const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
     const opponentColor = playerColor === 'white' ? 'black' : 'white';
     const opponentSocketId = game.players[opponentColor].id;
     
+    game.drawOffer = { from: playerColor };
+    
     // Send draw offer to opponent
     io.to(opponentSocketId).emit('drawOffered', {
       gameId,
@@ -1218,10 +1277,16 @@ io.on('connection', (socket) => {
 
   socket.on('draw-accept', ({ gameId }) => {
     const game = games.get(gameId);
-    if (!game || game.gameStatus !== 'active') return;
+    if (!game || game.gameStatus !== 'active' || !game.drawOffer) return;
+    
+    // Only the player the offer went to can accept it
+    const offeredTo = game.drawOffer.from === 'white' ? 'black' : 'white';
+    if (game.players[offeredTo].id !== socket.id) return;
     
+    game.drawOffer = null;
     game.gameStatus = 'finished';
     stopServerTimer(gameId);
+    recordFinishedGame(game, 'draw', 'draw');
     
     // Notify both players that the game ended in a draw
     io.to(gameId).emit('drawAccepted');
@@ -1236,13 +1301,103 @@ io.on('connection', (socket) => {
     if (!game || game.gameStatus !== 'active') return;
     
     const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
     const opponentColor = playerColor === 'white' ? 'black' : 'white';
     const opponentSocketId = game.players[opponentColor].id;
     
+    game.drawOffer = null;
+    
     // Notify the player who offered the draw that it was declined
     io.to(opponentSocketId).emit('drawDeclined');
   });
 
+  // Takeback handlers - a player takes back their last move, and the
+  // opponent's reply to it if there was one
+  socket.on('takeback-request', ({ gameId }) => {
+    const game = games.get(gameId);
+    if (!game || game.gameStatus !== 'active') return;
+    
+    const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
+    const opponentColor = playerColor === 'white' ? 'black' : 'white';
+    const opponentSocketId = game.players[opponentColor].id;
+    
+    const lastOwnMove = game.moveHistory.map(move => move.player).lastIndexOf(playerColor);
+    if (lastOwnMove === -1) {
+      socket.emit('takebackDeclined', { reason: 'You have no move to take back' });
+      return;
+    }
+    
+    game.takebackRequest = {
+      from: playerColor,
+      plies: game.moveHistory.length - lastOwnMove,
+      moveCount: game.moveHistory.length
+    };
+    
+    // Send takeback request to opponent
+    io.to(opponentSocketId).emit('takebackRequested', {
+      gameId,
+      fromPlayer: playerColor,
+      plies: game.takebackRequest.plies,
+      fromPlayerName: game.players[playerColor].name
+    });
+  });
+
+  socket.on('takeback-accept', ({ gameId }) => {
+    const game = games.get(gameId);
+    if (!game || game.gameStatus !== 'active') return;
+    
+    const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
+    const request = game.takebackRequest;
+    // Only the opponent can accept, and only while the position is unchanged
+    if (!request || request.from === playerColor || request.moveCount !== game.moveHistory.length) return;
+    
+    game.takebackRequest = null;
+    rollBackGame(gameId, request.plies);
+    
+    // Send the corrected game to both players
+    io.to(gameId).emit('takebackAccepted', {
+      fromPlayer: request.from,
+      plies: request.plies,
+      moveCount: game.moveHistory.length,
+      board: game.board,
+      currentPlayer: game.currentPlayer,
+      scores: game.scores,
+      lastMove: game.lastMove,
+      timers: game.timers,
+      timestamp: Date.now()
+    });
+  });
+
+  socket.on('takeback-decline', ({ gameId }) => {
+    const game = games.get(gameId);
+    if (!game || game.gameStatus !== 'active' || !game.takebackRequest) return;
+    
+    const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    // Only the opponent of the player who asked can decline
+    if (game.players[playerColor].id !== socket.id || game.takebackRequest.from === playerColor) return;
+    
+    const requesterSocketId = game.players[game.takebackRequest.from].id;
+    game.takebackRequest = null;
+    
+    // Notify the player who asked that the takeback was declined
+    io.to(requesterSocketId).emit('takebackDeclined', { reason: 'Opponent declined the takeback' });
+  });
+
+  // Win claimed against a player whose reconnection grace period has run out
+  socket.on('claim-win', ({ gameId }) => {
+    const game = games.get(gameId);
+    if (!game || game.gameStatus !== 'active') return;
+    
+    const playerColor = game.players.white.id === socket.id ? 'white' : 'black';
+    if (game.players[playerColor].id !== socket.id) return;
+    const absentColor = playerColor === 'white' ? 'black' : 'white';
+    if (!gracePeriodOver(game.players[absentColor])) return;
+    
+    endAbandonedGame(gameId, absentColor);
+  });
+
   // Room-based multiplayer handlers
   socket.on('createRoom', () => {
     // Generate a 6-character room code
@@ -1259,6 +1414,7 @@ io.on('connection', (socket) => {
         id: socket.id,
         name: playerName,
         userId: userId,
+        guestToken,
         socket: socket
       },
       guest: null,
@@ -1306,6 +1462,7 @@ io.on('connection', (socket) => {
       id: socket.id,
       name: playerName,
       userId: userId,
+      guestToken,
       socket: socket
     };
     room.status = 'ready';
@@ -1364,6 +1521,7 @@ io.on('connection', (socket) => {
       },
       timerInterval: null,
       lastMoveTime: Date.now(),
+      startedAt: Date.now(),
       roomCode: roomCode // Track which room this game came from
     };
     
@@ -1606,7 +1764,8 @@ io.on('connection', (socket) => {
           black: timerSettings.minutesPerPlayer * 60
         },
         timerInterval: null,
-        lastMoveTime: Date.now()
+        lastMoveTime: Date.now(),
+        startedAt: Date.now()
       };
       
       games.set(newGameId, newGameState);
@@ -1681,8 +1840,13 @@ io.on('connection', (socket) => {
       waitingPlayers.splice(waitingIndex, 1);
     }
     
-    // Handle room disconnection
+    // Handle room disconnection - a room whose game is in progress stays
+    // open while the player may still come back
     for (const [roomCode, room] of rooms.entries()) {
+      const roomGame = room.gameId && games.get(room.gameId);
+      if (roomGame && roomGame.gameStatus === 'active' && (room.host.id === socket.id || (room.guest && room.guest.id === socket.id))) {
+        break;
+      }
       if (room.host.id === socket.id) {
         // Host disconnected - notify guest and delete room
         if (room.guest) {
@@ -1707,11 +1871,39 @@ io.on('connection', (socket) => {
       if (game.players.white.id === socket.id || game.players.black.id === socket.id) {
         const disconnectedPlayerColor = game.players.white.id === socket.id ? 'white' : 'black';
         const winner = disconnectedPlayerColor === 'white' ? 'black' : 'white';
+        const player = game.players[disconnectedPlayerColor];
+        const opponent = game.players[winner];
+        
+        // Leaving after the opponent's grace period is over still wins: the
+        // opponent, who didn't come back in time, is the one who loses
+        if (game.gameStatus === 'active' && gracePeriodOver(opponent)) {
+          const absentColor = disconnectedPlayerColor === 'white' ? 'black' : 'white';
+          endAbandonedGame(gameId, absentColor);
+          break;
+        }
+        
+        // Hold the seat of a player who can be recognised when they return.
+        // Their clock keeps running, so a timeout can still end the game.
+        // When the opponent has already gone, this seat is held as well: the
+        // opponent's grace period runs out first, so whoever stayed longer
+        // wins unless someone comes back.
+        if (game.gameStatus === 'active' && (player.userId || player.guestToken || opponent.disconnectedAt)) {
+          holdSeat(game, disconnectedPlayerColor);
+          opponent.socket.emit('opponentDisconnected', {
+            color: disconnectedPlayerColor,
+            graceSeconds: RECONNECT_GRACE_SECONDS
+          });
+          console.log(`Game ${gameId} held - ${disconnectedPlayerColor} disconnected, ${RECONNECT_GRACE_SECONDS}s to return`);
+          break;
+        }
         
         // Stop the game timer
         stopServerTimer(gameId);
         
         // End the game - disconnection = instant loss
+        if (game.gameStatus === 'active') {
+          recordFinishedGame(game, winner, 'disconnection');
+        }
         game.gameStatus = 'finished';
         const remainingPlayer = game.players.white.id === socket.id ?
           game.players.black.socket : game.players.white.socket;
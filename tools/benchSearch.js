@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+// Measure AI-4 search speed in nodes per second
+//
+//   npm run bench -- [options]
+//
+//   --depth <n>    depth to search each position to (default 3)
+//   --runs <n>     searches per position, the fastest is kept (default 3)
+//   --build <dir>  compiled engine directory to measure, so a change can be
+//                  compared with a build of the code before it
+//
+// Every position is searched to the full depth with a fresh transposition
+// table. Nodes are the positions minimax visits (each looks up the table once);
+// quiescence positions are not counted but their time is.
+
+const path = require('path');
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const depth = Number(option('depth', 3));
+const runs = Number(option('runs', 3));
+const build = path.resolve(option('build', path.join(__dirname, '..', 'dist', 'engine')));
+
+const { TranspositionTable, iterativeDeepeningMinimax } = require(path.join(build, 'ai'));
+const { replayMoves } = require(path.join(build, 'rules'));
+const { parseSquareName } = require(path.join(build, 'notation'));
+
+// Middlegame positions, past where AI-4 leaves the opening book
+const POSITIONS = [
+  'd5 e6 e5 d7 f5 c6 e4 d6 d4 f6 e6 d6 c5 c7',
+  'd5 e6 e5 d7 f5 c6 e4 d6 d4 f6 e6 d6 c5 c7 f5 e5',
+  'e5 e6 e4 f5 f4 d6 d3 d5 f3 e7 e3 g3 d2 e2 g4 c1',
+  'd6 d4 d5 e5 c6 c5 c4 e4 e6 f6 g7 b6 c3 f7 a7 d3'
+];
+
+const setUp = (line) => {
+  const results = replayMoves(line.split(' ').map(parseSquareName));
+  return results[results.length - 1].position;
+};
+
+const searchOnce = (position) => {
+  const table = new TranspositionTable();
+  let nodes = 0;
+  const get = table.get.bind(table);
+  table.get = (key) => {
+    nodes++;
+    return get(key);
+  };
+  const started = process.hrtime.bigint();
+  const move = iterativeDeepeningMinimax(position.board, Infinity, position.toMove, table, depth);
+  const ms = Number(process.hrtime.bigint() - started) / 1e6;
+  return { nodes, ms, move };
+};
+
+console.log(`Engine: ${build}`);
+console.log(`Depth ${depth}, best of ${runs} runs\n`);
+
+let totalNodes = 0;
+let totalMs = 0;
+POSITIONS.forEach(line => {
+  const position = setUp(line);
+  let best = null;
+  for (let run = 0; run < runs; run++) {
+    const result = searchOnce(position);
+    if (!best || result.ms < best.ms) best = result;
+  }
+  totalNodes += best.nodes;
+  totalMs += best.ms;
+  const move = best.move ? `${String.fromCharCode(97 + best.move.col)}${8 - best.move.row}` : '-';
+  console.log(`${line.padEnd(48)} ${String(best.nodes).padStart(8)} nodes ${best.ms.toFixed(0).padStart(7)} ms ${String(Math.round(best.nodes / best.ms * 1000)).padStart(8)} nps  best ${move}`);
+});
+
+console.log(`\nTotal ${totalNodes} nodes in ${totalMs.toFixed(0)} ms: ${Math.round(totalNodes / totalMs * 1000)} nodes per second`);
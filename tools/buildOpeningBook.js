@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+// Build or extend the opening book from recorded games
+//
+//   npm run book -- [options] [games.json | games.mgn ...]
+//
+//   --book <file>        book to extend (default client/src/engine/openingBook.json)
+//   --out <file>         where to write the result (default: the --book file)
+//   --fresh              start from an empty book instead of extending
+//   --plies <n>          moves per game that go into the book (default 12)
+//   --min-weight <n>     drop moves lighter than this after adding (default 0)
+//   --db <file>          also add the finished online games in a server
+//                        database (server/migoyugo_game.db)
+//   --self-play <n>      also play and add n engine games
+//   --white <engine>     self-play engine for white (default ai-2)
+//   --black <engine>     self-play engine for black (default ai-3)
+//   --move-time <ms>     self-play search time per move (default 500)
+//
+// A JSON games file holds one game or an array of games (or { games: [...] }).
+// A game is { moves: [{ row, col }, ...], result: 'white' | 'black' | 'draw' };
+// move history entries from the client work as moves. An MGN file (see
+// client/src/engine/mgn.ts) holds one or more games, each starting with its
+// tags; games set up from a Position tag are skipped, since the book only
+// follows games from the empty board.
+
+const fs = require('fs');
+const path = require('path');
+
+// Shared engine (compiled from client/src/engine by `npm run build:engine`)
+const { OpeningBook, addGameToBook } = require('../dist/engine/openingBook');
+const { engineChooser, playGame } = require('../dist/engine/selfPlay');
+const { parseMgnGames } = require('../dist/engine/mgn');
+
+const DEFAULT_BOOK = path.join(__dirname, '..', 'client', 'src', 'engine', 'openingBook.json');
+const ENGINES = ['ai-1', 'ai-2', 'ai-3', 'ai-4'];
+
+const parseArgs = (argv) => {
+  const options = {
+    book: DEFAULT_BOOK,
+    out: null,
+    fresh: false,
+    plies: 12,
+    minWeight: 0,
+    selfPlay: 0,
+    white: 'ai-2',
+    black: 'ai-3',
+    moveTime: 500,
+    db: null,
+    files: []
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`Missing value for ${arg}`);
+      return argv[++i];
+    };
+    switch (arg) {
+      case '--book': options.book = value(); break;
+      case '--out': options.out = value(); break;
+      case '--fresh': options.fresh = true; break;
+      case '--plies': options.plies = Number(value()); break;
+      case '--min-weight': options.minWeight = Number(value()); break;
+      case '--db': options.db = value(); break;
+      case '--self-play': options.selfPlay = Number(value()); break;
+      case '--white': options.white = value(); break;
+      case '--black': options.black = value(); break;
+      case '--move-time': options.moveTime = Number(value()); break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        options.files.push(arg);
+    }
+  }
+
+  [options.white, options.black].forEach(engine => {
+    if (!ENGINES.includes(engine)) throw new Error(`Unknown engine ${engine} (expected one of ${ENGINES.join(', ')})`);
+  });
+  return options;
+};
+
+// Games in MGN text, with the reason for any that can't go in the book
+const mgnGames = (text) =>
+  parseMgnGames(text).map(game => ({
+    moves: game.moves.map(({ row, col }) => ({ row, col })),
+    result: game.result,
+    skip: game.start ? 'starts from a set-up position' : null
+  }));
+
+const isMgn = (file, text) => file.endsWith('.mgn') || /^\s*\[\w+\s+"/.test(text);
+
+const readGames = (file) => {
+  const text = fs.readFileSync(file, 'utf8');
+  if (isMgn(file, text)) return mgnGames(text);
+
+  const data = JSON.parse(text);
+  const games = Array.isArray(data) ? data : Array.isArray(data.games) ? data.games : [data];
+  return games.map(game => ({
+    moves: (game.moves || game.moveHistory || []).map(({ row, col }) => ({ row, col })),
+    result: game.result || game.winner || null
+  }));
+};
+
+// The MGN of every game in the server's games table
+const readDatabaseGames = (file) => new Promise((resolve, reject) => {
+  const sqlite3 = require('sqlite3');
+  const db = new sqlite3.Database(file, sqlite3.OPEN_READONLY, (err) => {
+    if (err) return reject(err);
+    db.all('SELECT mgn FROM games ORDER BY ended_at', (err, rows) => {
+      db.close();
+      if (err) return reject(err);
+      resolve(rows.flatMap(row => mgnGames(row.mgn)));
+    });
+  });
+});
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const book = options.fresh
+    ? new OpeningBook()
+    : OpeningBook.fromJSON(JSON.parse(fs.readFileSync(options.book, 'utf8')));
+  const before = book.size;
+  let added = 0;
+  let skipped = 0;
+
+  const add = (game, source) => {
+    if (game.skip) {
+      skipped++;
+      console.warn(`Skipping game from ${source}: ${game.skip}`);
+      return;
+    }
+    try {
+      addGameToBook(book, game, options.plies);
+      added++;
+    } catch (error) {
+      skipped++;
+      console.warn(`Skipping game from ${source}: ${error.message}`);
+    }
+  };
+
+  options.files.forEach(file => {
+    readGames(file).forEach(game => add(game, file));
+  });
+
+  if (options.db) {
+    (await readDatabaseGames(options.db)).forEach(game => add(game, options.db));
+  }
+
+  for (let i = 0; i < options.selfPlay; i++) {
+    // Alternate colors so neither engine only ever plays one side of the book
+    const [white, black] = i % 2 === 0 ? [options.white, options.black] : [options.black, options.white];
+    const game = await playGame(
+      engineChooser({ engine: white, moveTimeMs: options.moveTime }),
+      engineChooser({ engine: black, moveTimeMs: options.moveTime })
+    );
+    console.log(`Self-play ${i + 1}/${options.selfPlay}: ${white} vs ${black}, ${game.moves.length} moves, ${game.result}`);
+    add(game, 'self-play');
+  }
+
+  if (options.minWeight > 0) book.prune(options.minWeight);
+
+  const out = options.out || options.book;
+  fs.writeFileSync(out, JSON.stringify(book.toJSON(), null, 2) + '\n');
+  console.log(`Added ${added} games (${skipped} skipped); ${before} -> ${book.size} positions written to ${out}`);
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Serve the built-in engines over stdin/stdout with the engine protocol
+// (see client/src/engine/engineProtocol.ts). Run it directly rather than
+// through npm, which would print its own lines on stdout:
+//
+//   npm run build:engine && node tools/engine.js
+
+const { serveStdio } = require('../dist/engine/engineProcess');
+
+serveStdio();
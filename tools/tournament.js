@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+// Play a match between two engine configurations and estimate the Elo difference
+//
+//   npm run tournament -- --a <spec> --b <spec> [options]
+//
+//   --a <spec>, --b <spec>  the two players (default ai-4 and ai-3)
+//   --games <n>             games to play, colors alternating (default 10)
+//   --out <file>            where to write the games (default tournament-games.json)
+//
+// A spec is an engine tier, or `external` for an engine that speaks the engine
+// protocol (client/src/engine/engineProtocol.ts), with optional settings after a colon:
+//
+//   ai-4:time=500,depth=4,build=../baseline/dist/engine
+//   external:command=dotnet run -c Release -- --mei,time=500
+//
+//   time   search time per move in ms (default 1000)
+//   depth  AI-4 depth cap (default 3)
+//   build  compiled engine directory to take this player's moves from, so an
+//          engine change can be measured against a build of the code before it
+//   name   label used in the report and game file
+//   command  program and arguments to start (external only)
+//   Other    settings with a capitalised name are sent to an external engine
+//            with setoption, e.g. Depth=3
+//
+// Games are written after each one finishes, as { games: [...] } with every
+// move, the result and the time each move took. The file can be fed to
+// `npm run book` and the moves replay with the rules engine.
+
+const fs = require('fs');
+const path = require('path');
+
+// Shared engine (compiled from client/src/engine by `npm run build:engine`)
+const ENGINE_DIR = path.join(__dirname, '..', 'dist', 'engine');
+const { playGame } = require(path.join(ENGINE_DIR, 'selfPlay'));
+const { estimateElo } = require(path.join(ENGINE_DIR, 'elo'));
+const { ExternalEngine } = require(path.join(ENGINE_DIR, 'engineProcess'));
+
+const ENGINES = ['ai-1', 'ai-2', 'ai-3', 'ai-4', 'external'];
+
+const parseSpec = (spec) => {
+  const colon = spec.indexOf(':');
+  const engine = colon >= 0 ? spec.slice(0, colon) : spec;
+  const settings = colon >= 0 ? spec.slice(colon + 1) : '';
+  if (!ENGINES.includes(engine)) throw new Error(`Unknown engine ${engine} (expected one of ${ENGINES.join(', ')})`);
+
+  const player = { name: spec, engine, moveTimeMs: 1000, maxDepth: 3, build: ENGINE_DIR, command: null, engineOptions: {} };
+  settings.split(',').filter(Boolean).forEach(setting => {
+    const [key, value] = setting.split('=');
+    switch (key) {
+      case 'time': player.moveTimeMs = Number(value); break;
+      case 'depth': player.maxDepth = Number(value); break;
+      case 'build': player.build = path.resolve(value); break;
+      case 'name': player.name = value; break;
+      case 'command': player.command = value.split(' ').filter(Boolean); break;
+      default:
+        if (engine !== 'external' || !/^[A-Z]/.test(key)) throw new Error(`Unknown setting ${key} in ${spec}`);
+        player.engineOptions[key] = value;
+    }
+  });
+  if (engine === 'external' && !player.command) throw new Error(`No command given for ${spec}`);
+  return player;
+};
+
+const parseArgs = (argv) => {
+  const options = { a: 'ai-4', b: 'ai-3', games: 10, out: 'tournament-games.json' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (i + 1 >= argv.length) throw new Error(`Missing value for ${arg}`);
+    switch (arg) {
+      case '--a': options.a = argv[++i]; break;
+      case '--b': options.b = argv[++i]; break;
+      case '--games': options.games = Number(argv[++i]); break;
+      case '--out': options.out = argv[++i]; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+  return options;
+};
+
+// Each built-in player takes its moves from its own engine build
+const createPlayer = async (player) => {
+  if (player.engine === 'external') {
+    const [command, ...args] = player.command;
+    const engine = await ExternalEngine.start(command, args);
+    Object.entries(player.engineOptions).forEach(([name, value]) => engine.setOption(name, value));
+    console.log(`Started ${engine.name} for ${player.name}`);
+    return {
+      choose: (board, color, moves) => engine.bestMove(moves, { movetime: player.moveTimeMs }),
+      newGame: () => engine.newGame(),
+      quit: () => engine.quit()
+    };
+  }
+
+  const { engineChooser } = require(path.join(player.build, 'selfPlay'));
+  return {
+    choose: engineChooser({ engine: player.engine, moveTimeMs: player.moveTimeMs, maxDepth: player.maxDepth }),
+    newGame: async () => {},
+    quit: () => {}
+  };
+};
+
+const formatElo = (value) => (Number.isFinite(value) ? `${value > 0 ? '+' : ''}${Math.round(value)}` : value > 0 ? '+inf' : '-inf');
+
+const average = (values) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const players = [parseSpec(options.a), parseSpec(options.b)];
+  if (players[0].name === players[1].name) players[1].name += ' (b)';
+  const engines = [];
+  for (const player of players) engines.push(await createPlayer(player));
+
+  const tally = { wins: 0, losses: 0, draws: 0 };
+  const moveTimes = [[], []];
+  const games = [];
+  console.log(`${players[0].name} vs ${players[1].name}, ${options.games} games`);
+
+  for (let round = 0; round < options.games; round++) {
+    // Player a has white in even rounds
+    const whiteIndex = round % 2;
+    const blackIndex = 1 - whiteIndex;
+    await Promise.all(engines.map(engine => engine.newGame()));
+    const game = await playGame(engines[whiteIndex].choose, engines[blackIndex].choose);
+
+    game.moveTimesMs.forEach((ms, ply) => moveTimes[ply % 2 === 0 ? whiteIndex : blackIndex].push(ms));
+    const winnerIndex = game.result === 'draw' ? null : game.result === 'white' ? whiteIndex : blackIndex;
+    if (winnerIndex === null) tally.draws++;
+    else if (winnerIndex === 0) tally.wins++;
+    else tally.losses++;
+
+    games.push({
+      round: round + 1,
+      white: players[whiteIndex].name,
+      black: players[blackIndex].name,
+      result: game.result,
+      reason: game.reason,
+      ...(game.error ? { error: game.error } : {}),
+      moves: game.moves,
+      moveTimesMs: game.moveTimesMs
+    });
+    fs.writeFileSync(options.out, JSON.stringify({ games }, null, 2) + '\n');
+
+    const outcome = winnerIndex === null ? 'draw' : `${players[winnerIndex].name} wins`;
+    console.log(`Game ${round + 1}: ${players[whiteIndex].name} (white) - ${players[blackIndex].name} (black): ${outcome} by ${game.reason} in ${game.moves.length} moves${game.error ? ` (${game.error})` : ''}`);
+  }
+
+  const estimate = estimateElo(tally);
+  console.log('');
+  console.log(`${players[0].name}: +${tally.wins} -${tally.losses} =${tally.draws} (${(estimate.score * 100).toFixed(1)}%)`);
+  console.log(`Elo difference: ${formatElo(estimate.elo)} (95% interval ${formatElo(estimate.low)} to ${formatElo(estimate.high)})`);
+  players.forEach((player, index) => {
+    console.log(`Average move time ${player.name}: ${Math.round(average(moveTimes[index]))} ms`);
+  });
+  console.log(`Games written to ${options.out}`);
+  engines.forEach(engine => engine.quit());
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});